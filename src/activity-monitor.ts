@@ -0,0 +1,192 @@
+import { Frame, Request, ResourceType } from "puppeteer";
+import { PageDriver } from "./driver";
+import { NavigatorError } from "./errors";
+
+/**
+ * A string matches any url containing it.  A RegExp is tested against the full url.
+ */
+export type UrlPattern = string | RegExp
+
+/**
+ * Selects which network requests are considered activity to wait on
+ */
+export interface ActivityFilter {
+    /** only requests matching one of these url patterns are tracked. default all */
+    include?: UrlPattern[]
+    /** requests matching any of these url patterns are ignored. default none */
+    exclude?: UrlPattern[]
+    /** only these resource types are tracked. default all */
+    resourceTypes?: ResourceType[]
+    /** these resource types are ignored. default eventsource and websocket */
+    excludeResourceTypes?: ResourceType[]
+    /** only requests for which the predicate returns true are tracked */
+    predicate?: (request:Request) => boolean
+}
+
+export interface PendingRequest {
+    url: string
+    method: string
+    resourceType: ResourceType
+    /** url of the frame which made the request */
+    frameUrl?: string
+    /** milliseconds since the request started */
+    elapsedTime: number
+}
+
+export interface ActivityWaitOptions {
+    /** only track requests made by this frame or its descendants. default all frames */
+    frame?: Frame
+    filter?: ActivityFilter
+    /** maximum milliseconds to wait. default 30000 */
+    timeout?: number
+    /** reject with a timeout NavigatorError instead of resolving when the timeout expires. default false */
+    timeoutError?: boolean
+    /** stop waiting once this resolves */
+    cancel?: Promise<void>
+}
+
+export type ActivityMonitor = ReturnType<typeof startActivityMonitor>
+
+// long lived connections that never complete and would otherwise prevent the page from becoming idle
+const defaultExcludeResourceTypes:ResourceType[] = ['eventsource', 'websocket']
+// number of finished requests remembered to determine when tracked activity last occurred
+const finishedRequestHistory = 200
+
+export function urlMatches(url:string, pattern:UrlPattern) {
+    if (typeof pattern === 'string') return url.includes(pattern)
+    return pattern.test(url)
+}
+
+function isInFrame(request:Request, scopeFrame:Frame) {
+    let frame = request.frame()
+    // requests without a frame, such as from service workers, belong to the page
+    if (!frame) return !scopeFrame.parentFrame()
+    while (frame) {
+        if (frame === scopeFrame) return true
+        frame = frame.parentFrame()
+    }
+    return false
+}
+
+function isTracked(request:Request, waitOptions:ActivityWaitOptions) {
+    const filter = waitOptions.filter || {}
+    const url = request.url()
+    const resourceType = request.resourceType()
+
+    if (waitOptions.frame && !isInFrame(request, waitOptions.frame)) return false
+    if (filter.include && !filter.include.some(pattern => urlMatches(url, pattern))) return false
+    if (filter.exclude && filter.exclude.some(pattern => urlMatches(url, pattern))) return false
+    if (filter.resourceTypes && !filter.resourceTypes.includes(resourceType)) return false
+    if ((filter.excludeResourceTypes || defaultExcludeResourceTypes).includes(resourceType)) return false
+    if (filter.predicate && !filter.predicate(request)) return false
+    return true
+}
+
+export function startActivityMonitor(driver:PageDriver) {
+    // pending requests and the time they started
+    const pendingRequestTimes = new Map<Request, number>()
+    let finishedRequests:{request:Request, time:number}[] = []
+    let lastDomLoadedTime = 0
+    // waits in progress.  Each is notified of activity it tracks
+    const activityWaiters = new Set<{waitOptions:ActivityWaitOptions, update:() => void}>()
+
+    driver.on('request', onRequestStarted)
+    driver.on('requestfinished', onRequestFinished)
+    driver.on('requestfailed', onRequestFinished)
+    driver.on('domcontentloaded', onDomContentLoaded)
+    driver.on('close', stopMonitoring)
+
+    function onRequestStarted(request:Request) {
+        pendingRequestTimes.set(request, Date.now())
+        notifyWaiters(request)
+    }
+    function onRequestFinished(request:Request) {
+        if (!pendingRequestTimes.delete(request)) return
+        finishedRequests.push({request, time: Date.now()})
+        if (finishedRequests.length > finishedRequestHistory) finishedRequests = finishedRequests.slice(-finishedRequestHistory)
+        notifyWaiters(request)
+    }
+    function onDomContentLoaded() {
+        lastDomLoadedTime = Date.now()
+        activityWaiters.forEach(waiter => waiter.update())
+    }
+    function notifyWaiters(request:Request) {
+        activityWaiters.forEach(waiter => {
+            if (isTracked(request, waiter.waitOptions)) waiter.update()
+        })
+    }
+
+    function stopMonitoring() {
+        driver.off('request', onRequestStarted)
+        driver.off('requestfinished', onRequestFinished)
+        driver.off('requestfailed', onRequestFinished)
+        driver.off('domcontentloaded', onDomContentLoaded)
+        driver.off('close', stopMonitoring)
+    }
+
+    /**
+     * Requests which have started but not finished
+     */
+    function pendingRequests(waitOptions:ActivityWaitOptions = {}) : PendingRequest[] {
+        const now = Date.now()
+        return Array.from(pendingRequestTimes.entries())
+            .filter(([request]) => isTracked(request, waitOptions))
+            .map(([request, startTime]) => ({
+                url: request.url(),
+                method: request.method(),
+                resourceType: request.resourceType(),
+                frameUrl: request.frame()?.url(),
+                elapsedTime: now - startTime
+            }))
+    }
+
+    function pendingRequestCount(waitOptions:ActivityWaitOptions = {}) {return pendingRequests(waitOptions).length}
+
+    function lastActivityTime(waitOptions:ActivityWaitOptions) {
+        for (let index = finishedRequests.length - 1; index >= 0; index--) {
+            if (isTracked(finishedRequests[index].request, waitOptions)) return finishedRequests[index].time
+        }
+        return 0
+    }
+
+    // possible further improvements using: https://github.com/GoogleChromeLabs/puppeteer-examples/blob/master/hash_navigation.js
+    async function waitForPendingActivity(idleTime:number = 0, idleLoadTime:number = 0, waitOptions:ActivityWaitOptions = {}) {
+        const timeout = waitOptions.timeout === undefined ? 30000 : waitOptions.timeout
+        try {
+            await new Promise<void>((resolve, reject) => {
+                let idleTimer:NodeJS.Timeout | undefined
+                const timeoutTimer = setTimeout(() => {
+                    if (!waitOptions.timeoutError) return finish()
+                    const pending = pendingRequests(waitOptions)
+                    finish(new NavigatorError('timeout', `Network activity not idle after ${timeout}ms. Pending requests: ${pending.map(request => request.url).join(', ')}`, {action: 'waitActivity'}))
+                }, timeout)
+                const waiter = {waitOptions, update}
+
+                // called whenever tracked activity occurs to restart waiting for the idle time
+                function update() {
+                    if (idleTimer) clearTimeout(idleTimer)
+                    if (pendingRequestCount(waitOptions) > 0) return
+
+                    // if we have an idleLoadTime and the DOM was just loaded, use that as the idleTime
+                    const requiredIdleTime = lastDomLoadedTime ? idleLoadTime || idleTime : idleTime
+                    const currentIdleTime = Date.now() - lastActivityTime(waitOptions)
+                    idleTimer = setTimeout(() => finish(), Math.max(0, requiredIdleTime - currentIdleTime))
+                }
+                function finish(error?:Error) {
+                    if (idleTimer) clearTimeout(idleTimer)
+                    clearTimeout(timeoutTimer)
+                    activityWaiters.delete(waiter)
+                    if (error) reject(error)
+                    else resolve()
+                }
+
+                activityWaiters.add(waiter)
+                if (waitOptions.cancel) waitOptions.cancel.then(() => finish())
+                update()
+            })
+        } finally {
+            lastDomLoadedTime = 0 // so we know if DOM has been loaded since last time we wait
+        }
+    }
+    return {pendingRequestCount, pendingRequests, stopMonitoring, waitForPendingActivity}
+}
@@ -0,0 +1,260 @@
+import { Cookie, Frame, Request, SetCookie } from "puppeteer";
+import { FrameDriver, PageDriver } from "./driver";
+import fs from 'fs'
+
+/**
+ * Version of the state file format.  Increased when the format changes incompatibly
+ */
+export const browserStateVersion = 1
+
+export interface IndexedDBIndex {
+    name: string
+    keyPath: string | string[]
+    unique: boolean
+    multiEntry: boolean
+}
+
+export interface IndexedDBStore {
+    name: string
+    keyPath: string | string[] | null
+    autoIncrement: boolean
+    indexes: IndexedDBIndex[]
+    /** keys and values must be JSON serializable to be saved */
+    records: {key:any, value:any}[]
+}
+
+export interface IndexedDBDatabase {
+    name: string
+    version: number
+    stores: IndexedDBStore[]
+}
+
+export interface OriginState {
+    /** such as 'https://example.com' */
+    origin: string
+    localStorage: {[key:string]: string}
+    /** only saved for origins loaded in the page when the state is saved */
+    sessionStorage: {[key:string]: string}
+    /** only saved when requested */
+    indexedDB?: IndexedDBDatabase[]
+}
+
+export interface BrowserState {
+    version: number
+    cookies: Cookie[]
+    origins: OriginState[]
+}
+
+export interface SaveStateOptions {
+    /** include the IndexedDB databases of each origin. default false */
+    indexedDB?: boolean
+}
+
+export type StateManager = ReturnType<typeof makeStateManager>
+
+// sessionStorage key set once the restored session storage has been applied to a tab
+const restoredMarkerPrefix = 'puppeteer-navigator-state-restored:'
+
+function isWebOrigin(url:string) {
+    return url.startsWith('http:') || url.startsWith('https:')
+}
+
+/**
+ * Saves and restores the cookies and storage of every origin visited by a page
+ */
+export function makeStateManager(driver:PageDriver) {
+    const visitedOrigins = new Set<string>()
+
+    driver.on('framenavigated', (frame:Frame) => {
+        if (isWebOrigin(frame.url())) visitedOrigins.add(new URL(frame.url()).origin)
+    })
+
+    /**
+     * Opens a blank document of the origin in a new page of the same browser context so its storage can be used.
+     * Requests are answered with an empty document so the site is never loaded
+     */
+    async function withOriginPage<T>(origin:string, originFn:(frameDriver:FrameDriver) => Promise<T>) : Promise<T> {
+        const originDriver = await driver.newPage()
+        try {
+            await originDriver.setRequestInterception(true)
+            originDriver.on('request', (request:Request) => request.respond({status: 200, contentType: 'text/html', body: '<html></html>'}))
+            await originDriver.mainFrame().goto(origin + '/')
+            return await originFn(originDriver.mainFrame())
+        } finally {
+            await originDriver.close()
+        }
+    }
+
+    async function saveState(filePath:string, saveOptions:SaveStateOptions = {}) : Promise<BrowserState> {
+        const {cookies} = await driver.send('Network.getAllCookies') as {cookies:Cookie[]}
+        const origins:OriginState[] = []
+
+        for (const origin of visitedOrigins) {
+            const originFrame = driver.frames().find(frameDriver => isWebOrigin(frameDriver.url()) && new URL(frameDriver.url()).origin === origin)
+            const readState = async (frameDriver:FrameDriver) : Promise<OriginState> => ({
+                origin,
+                ...await frameDriver.evaluate(readStorage, restoredMarkerPrefix),
+                indexedDB: saveOptions.indexedDB ? await frameDriver.evaluate(readIndexedDB) : undefined
+            })
+            // session storage belongs to the page so it is only available for origins loaded in the page
+            origins.push(originFrame ? await readState(originFrame) : {...await withOriginPage(origin, readState), sessionStorage: {}})
+        }
+
+        const state:BrowserState = {version: browserStateVersion, cookies, origins}
+        await fs.promises.writeFile(filePath, JSON.stringify(state, null, 2))
+        return state
+    }
+
+    /**
+     * Cookies, local storage and IndexedDB are restored immediately.
+     * Session storage is restored as each origin is loaded in the page
+     */
+    async function restoreState(filePath:string) : Promise<BrowserState> {
+        const state:BrowserState = JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+        if (state.version !== browserStateVersion) throw new Error(`Unsupported state version ${state.version} in ${filePath}. Expected version ${browserStateVersion}`)
+
+        if (state.cookies.length) await driver.setCookies(state.cookies.map(toSetCookie))
+
+        const sessionStorageByOrigin:{[origin:string]: {[key:string]: string}} = {}
+        for (const originState of state.origins) {
+            visitedOrigins.add(originState.origin)
+            if (Object.keys(originState.sessionStorage).length) sessionStorageByOrigin[originState.origin] = originState.sessionStorage
+            if (!Object.keys(originState.localStorage).length && !originState.indexedDB) continue
+
+            await withOriginPage(originState.origin, async frameDriver => {
+                await frameDriver.evaluate(writeLocalStorage, originState.localStorage)
+                if (originState.indexedDB) await frameDriver.evaluate(writeIndexedDB, originState.indexedDB as any)
+            })
+        }
+
+        if (Object.keys(sessionStorageByOrigin).length)
+            await driver.addInitScript(writeSessionStorage, sessionStorageByOrigin, restoredMarkerPrefix + Date.now())
+        return state
+    }
+
+    return {
+        saveState,
+        restoreState,
+        visitedOrigins: () => Array.from(visitedOrigins)
+    }
+}
+
+function toSetCookie(cookie:Cookie) : SetCookie {
+    return {
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain,
+        path: cookie.path,
+        // session cookies have no expiry
+        expires: cookie.session ? undefined : cookie.expires,
+        httpOnly: cookie.httpOnly,
+        secure: cookie.secure,
+        sameSite: cookie.sameSite
+    }
+}
+
+/**
+ * Page function returning local and session storage of the document's origin
+ */
+function readStorage(restoredMarkerPrefix:string) {
+    const readItems = (storage:Storage) => {
+        const items:{[key:string]: string} = {}
+        for (let index = 0; index < storage.length; index++) {
+            const key = storage.key(index)!
+            if (!key.startsWith(restoredMarkerPrefix)) items[key] = storage.getItem(key)!
+        }
+        return items
+    }
+    return {localStorage: readItems(localStorage), sessionStorage: readItems(sessionStorage)}
+}
+
+/**
+ * Page function replacing local storage of the document's origin
+ */
+function writeLocalStorage(items:{[key:string]: string}) {
+    localStorage.clear()
+    for (const key of Object.keys(items)) localStorage.setItem(key, items[key])
+}
+
+/**
+ * Page function run on each new document which applies the saved session storage once per tab and origin
+ */
+function writeSessionStorage(itemsByOrigin:{[origin:string]: {[key:string]: string}}, restoredMarker:string) {
+    const items = itemsByOrigin[location.origin]
+    if (!items) return
+    try {
+        if (sessionStorage.getItem(restoredMarker)) return
+        for (const key of Object.keys(items)) sessionStorage.setItem(key, items[key])
+        sessionStorage.setItem(restoredMarker, '1')
+    } catch (error) {} // storage is not available to sandboxed documents
+}
+
+/**
+ * Page function returning all IndexedDB databases of the document's origin
+ */
+async function readIndexedDB() {
+    const requestResult = <T>(request:IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+
+    const databases:IndexedDBDatabase[] = []
+    for (const databaseInfo of await (indexedDB as any).databases() as {name:string}[]) {
+        const database = await requestResult(indexedDB.open(databaseInfo.name))
+        const stores:IndexedDBStore[] = []
+        for (const storeName of Array.from(database.objectStoreNames)) {
+            const store = database.transaction(storeName, 'readonly').objectStore(storeName)
+            // both requests are made before waiting so the transaction is still active
+            const [keys, values] = await Promise.all([requestResult(store.getAllKeys()), requestResult(store.getAll())])
+            stores.push({
+                name: storeName,
+                keyPath: store.keyPath,
+                autoIncrement: store.autoIncrement,
+                indexes: Array.from(store.indexNames).map(indexName => {
+                    const index = store.index(indexName)
+                    return {name: indexName, keyPath: index.keyPath, unique: index.unique, multiEntry: index.multiEntry}
+                }),
+                records: keys.map((key, keyIndex) => ({key, value: values[keyIndex]}))
+            })
+        }
+        databases.push({name: database.name, version: database.version, stores})
+        database.close()
+    }
+    return databases
+}
+
+/**
+ * Page function replacing the IndexedDB databases of the document's origin
+ */
+async function writeIndexedDB(databases:IndexedDBDatabase[]) {
+    const requestResult = <T>(request:IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+
+    for (const savedDatabase of databases) {
+        await requestResult(indexedDB.deleteDatabase(savedDatabase.name))
+        const openRequest = indexedDB.open(savedDatabase.name, savedDatabase.version)
+        openRequest.onupgradeneeded = () => {
+            for (const savedStore of savedDatabase.stores) {
+                const store = openRequest.result.createObjectStore(savedStore.name, {keyPath: savedStore.keyPath, autoIncrement: savedStore.autoIncrement})
+                for (const index of savedStore.indexes) store.createIndex(index.name, index.keyPath, {unique: index.unique, multiEntry: index.multiEntry})
+            }
+        }
+        const database = await requestResult(openRequest)
+
+        if (savedDatabase.stores.length) {
+            const transaction = database.transaction(savedDatabase.stores.map(store => store.name), 'readwrite')
+            for (const savedStore of savedDatabase.stores) {
+                const store = transaction.objectStore(savedStore.name)
+                // stores with a key path read the key from the value
+                for (const record of savedStore.records) savedStore.keyPath === null ? store.put(record.value, record.key) : store.put(record.value)
+            }
+            await new Promise((resolve, reject) => {
+                transaction.oncomplete = resolve
+                transaction.onerror = () => reject(transaction.error)
+            })
+        }
+        database.close()
+    }
+}
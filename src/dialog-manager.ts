@@ -0,0 +1,103 @@
+import { Dialog } from "puppeteer";
+import { PageDriver } from "./driver";
+
+/**
+ * Response to a dialog.  promptText accepts a prompt with the text
+ */
+export type DialogResponse = 'accept' | 'dismiss' | {promptText:string}
+
+/**
+ * How dialogs are answered.  Handler functions return the response for each dialog
+ */
+export type DialogPolicy = DialogResponse | ((dialog:Dialog) => DialogResponse | Promise<DialogResponse>)
+
+export interface DialogActionOptions {
+    /** answer dialogs opened during the action with this policy.  Dialogs are then not reported as unexpected */
+    expectDialog?: DialogPolicy
+}
+
+export interface DialogInfo {
+    type: 'alert' | 'beforeunload' | 'confirm' | 'prompt'
+    message: string
+    /** default value of a prompt */
+    defaultValue: string
+    /** url of the page when the dialog opened */
+    url: string
+    response: 'accept' | 'dismiss'
+    /** text a prompt was accepted with */
+    promptText?: string
+    /** opened during an action expecting a dialog */
+    expected: boolean
+    /** message of the error thrown by the dialog policy.  The dialog is dismissed and the action fails */
+    error?: string
+    time: number
+}
+
+export type DialogManager = ReturnType<typeof makeDialogManager>
+
+/**
+ * Dialogs are dismissed except beforeunload which is accepted so navigations are not blocked
+ */
+const defaultPolicy:DialogPolicy = dialog => dialog.type() === 'beforeunload' ? 'accept' : 'dismiss'
+
+/**
+ * Answers all dialogs of a page so they never block actions, and records each dialog
+ */
+export function makeDialogManager(driver:PageDriver) {
+    const dialogHistory:DialogInfo[] = []
+    let policy:DialogPolicy = defaultPolicy
+    // policies of actions in progress which expect a dialog.  The most recent takes precedence
+    const expectedPolicies:DialogPolicy[] = []
+
+    driver.on('dialog', async (dialog:Dialog) => {
+        const expected = expectedPolicies.length > 0
+        const activePolicy = expected ? expectedPolicies[expectedPolicies.length - 1] : policy
+        let response:DialogResponse = 'dismiss'
+        let policyError:string | undefined
+        try {
+            response = typeof activePolicy === 'function' ? await activePolicy(dialog) : activePolicy
+        } catch (error) {
+            // reported by the action the dialog opened during
+            policyError = error && error.message || String(error)
+        }
+
+        const promptText = typeof response === 'object' ? response.promptText : undefined
+        dialogHistory.push({
+            type: dialog.type() as DialogInfo['type'],
+            message: dialog.message(),
+            defaultValue: dialog.defaultValue(),
+            url: driver.url(),
+            response: response === 'dismiss' ? 'dismiss' : 'accept',
+            promptText,
+            expected,
+            error: policyError,
+            time: Date.now()
+        })
+
+        try {
+            if (response === 'dismiss') await dialog.dismiss()
+            else await dialog.accept(promptText)
+        } catch (error) {} // page may be closed
+    })
+
+    return {
+        setPolicy: function (dialogPolicy:DialogPolicy) {
+            policy = dialogPolicy
+        },
+
+        /**
+         * Answers dialogs opened while the action is performed with the policy
+         */
+        expectDialog: async function <T>(dialogPolicy:DialogPolicy | undefined, actionFn:() => Promise<T>) : Promise<T> {
+            if (dialogPolicy === undefined) return await actionFn()
+            expectedPolicies.push(dialogPolicy)
+            try {
+                return await actionFn()
+            } finally {
+                expectedPolicies.splice(expectedPolicies.lastIndexOf(dialogPolicy), 1)
+            }
+        },
+
+        history: () => dialogHistory.slice()
+    }
+}
@@ -0,0 +1,149 @@
+import { Response } from "puppeteer";
+import { PageDriver } from "./driver";
+import { NavigatorError } from "./errors";
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+export interface DownloadInfo {
+    /** full path of the downloaded file */
+    path: string
+    /** filename suggested by the browser.  The saved file may differ if a file with the same name already existed */
+    suggestedFilename: string
+    /** bytes */
+    size: number
+    mimeType: string
+    /** url the file was downloaded from when known */
+    url?: string
+    startTime: number
+    endTime: number
+}
+
+export interface DownloadOptions {
+    /** maximum milliseconds to wait for the download to complete. default 30000 */
+    timeout?: number
+    /** directory to save the download to. default a temporary directory unique to the navigator */
+    downloadPath?: string
+}
+
+export type DownloadManager = ReturnType<typeof makeDownloadManager>
+
+// chrome writes in progress downloads to temporary files with this extension and renames them when complete
+const inProgressExtension = '.crdownload'
+const pollInterval = 100
+
+const mimeTypesByExtension:{[extension:string]: string} = {
+    '.csv': 'text/csv',
+    '.txt': 'text/plain',
+    '.json': 'application/json',
+    '.xml': 'application/xml',
+    '.html': 'text/html',
+    '.pdf': 'application/pdf',
+    '.zip': 'application/zip',
+    '.xls': 'application/vnd.ms-excel',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    '.doc': 'application/msword',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml'
+}
+
+/**
+ * Manages downloads for a page.
+ * Chrome download events are received through the devtools protocol since puppeteer does not expose downloads
+ */
+export function makeDownloadManager(driver:PageDriver) {
+    const downloadHistory:DownloadInfo[] = []
+    // directory chrome is currently configured to download to
+    let activeDownloadPath:string | undefined
+    let defaultDownloadPath:string | undefined
+    // content types of recent responses by url.  Used to determine the mime type of downloads
+    const contentTypes = new Map<string, string>()
+
+    driver.on('response', (response:Response) => {
+        const contentType = response.headers()['content-type']
+        if (contentType) contentTypes.set(response.url(), contentType.split(';')[0].trim())
+        if (contentTypes.size > 100) contentTypes.delete(contentTypes.keys().next().value)
+    })
+
+    async function setDownloadPath(downloadPath:string) {
+        await fs.promises.mkdir(downloadPath, {recursive: true})
+        await driver.send('Page.setDownloadBehavior', {behavior: 'allow', downloadPath: downloadPath})
+        activeDownloadPath = downloadPath
+    }
+
+    async function resolveDownloadPath(downloadPath?:string) {
+        if (downloadPath) return downloadPath
+        if (activeDownloadPath) return activeDownloadPath
+        if (!defaultDownloadPath) defaultDownloadPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'puppeteer-navigator-downloads-'))
+        return defaultDownloadPath
+    }
+
+    /**
+     * Performs the trigger action and waits for the download it starts to complete
+     */
+    async function download(triggerFn:() => Promise<unknown>, downloadOptions:DownloadOptions = {}) : Promise<DownloadInfo> {
+        const timeout = downloadOptions.timeout === undefined ? 30000 : downloadOptions.timeout
+        const downloadPath = await resolveDownloadPath(downloadOptions.downloadPath)
+        if (downloadPath !== activeDownloadPath) await setDownloadPath(downloadPath)
+
+        const startTime = Date.now()
+        const existingFiles = new Set(await fs.promises.readdir(downloadPath))
+        let downloadEvent:{url:string, suggestedFilename:string} | undefined
+        const onDownloadWillBegin = (event:{url:string, suggestedFilename:string}) => downloadEvent = event
+        await driver.onProtocolEvent('Page.downloadWillBegin', onDownloadWillBegin)
+
+        try {
+            await triggerFn()
+            const filePath = await waitForDownloadedFile(downloadPath, existingFiles, startTime + timeout)
+            if (!filePath) throw new NavigatorError('timeout', `Download not completed within ${timeout}ms in ${downloadPath}`, {action: 'download'})
+
+            const {size} = await fs.promises.stat(filePath)
+            const url = downloadEvent?.url
+            const downloadInfo:DownloadInfo = {
+                path: filePath,
+                suggestedFilename: downloadEvent?.suggestedFilename || path.basename(filePath),
+                size,
+                mimeType: url && contentTypes.get(url) || mimeTypesByExtension[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+                url,
+                startTime,
+                endTime: Date.now()
+            }
+            downloadHistory.push(downloadInfo)
+            return downloadInfo
+        } finally {
+            await driver.offProtocolEvent('Page.downloadWillBegin', onDownloadWillBegin)
+        }
+    }
+
+    return {
+        download,
+        setDownloadPath,
+        history: () => downloadHistory
+    }
+}
+
+/**
+ * Waits for a new file to appear in the directory with no downloads in progress and a stable size.
+ * Returns undefined if the deadline is reached first
+ */
+async function waitForDownloadedFile(directory:string, existingFiles:Set<string>, deadline:number) : Promise<string | undefined> {
+    let lastSize = -1
+    while (Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, pollInterval))
+
+        const newFiles = (await fs.promises.readdir(directory)).filter(file => !existingFiles.has(file))
+        if (newFiles.some(file => file.endsWith(inProgressExtension))) continue
+        if (!newFiles.length) continue
+
+        const filePath = path.join(directory, newFiles[0])
+        const {size} = await fs.promises.stat(filePath)
+        // the file may still be flushing after the rename
+        if (size === lastSize) return filePath
+        lastSize = size
+    }
+    return undefined
+}
@@ -0,0 +1,99 @@
+import { ClickOptions, ElementHandle, EvaluateFn, Frame, JSEvalable, JSHandle, Page, PageFnOptions, Response, SerializableOrJSHandle, SetCookie } from "puppeteer";
+
+/**
+ * Page events used by the navigator.  Listeners receive the same arguments as the puppeteer page events
+ */
+export type DriverEvent = 'request' | 'requestfinished' | 'requestfailed' | 'response' | 'domcontentloaded' | 'framenavigated' | 'dialog' | 'popup' | 'close'
+
+export interface WaitForSelectorOptions {
+    visible?: boolean
+    /** milliseconds.  default the driver's timeout */
+    timeout?: number
+}
+
+/**
+ * Operations the navigator performs on a frame.  Page functions are evaluated as they are by puppeteer
+ */
+export interface FrameDriver extends JSEvalable {
+    frame: Frame
+    url() : string
+
+    /**
+     * Queries the first element matching a css selector or xpath.
+     * xpath expressions start with '/', './' or '('
+     * @param root query within this element instead of the document
+     */
+    query(selector:string, root?:ElementHandle) : Promise<ElementHandle | null>
+    queryAll(selector:string, root?:ElementHandle) : Promise<ElementHandle[]>
+
+    /**
+     * Waits for an element matching a css selector or xpath.  Rejects with an error named 'TimeoutError' on timeout
+     */
+    waitForSelector(selector:string, waitOptions?:WaitForSelectorOptions) : Promise<ElementHandle>
+    /**
+     * Waits for the page function to return a truthy value.  Rejects with an error named 'TimeoutError' on timeout
+     */
+    waitForFunction(pageFunction:EvaluateFn, waitOptions?:PageFnOptions, ...args:SerializableOrJSHandle[]) : Promise<JSHandle>
+    waitForTimeout(milliseconds:number) : Promise<void>
+
+    goto(url:string) : Promise<Response | null>
+    waitForNavigation() : Promise<Response>
+
+    click(element:ElementHandle, clickOptions?:ClickOptions) : Promise<void>
+    type(element:ElementHandle, text:string, typeOptions?:{delay:number}) : Promise<void>
+    uploadFile(element:ElementHandle, ...filePaths:string[]) : Promise<void>
+    /** driver for the frame of an iframe element, or null if the element is not a frame */
+    contentFrame(element:ElementHandle) : Promise<FrameDriver | null>
+}
+
+/**
+ * Operations the navigator performs on a page.
+ * The navigator only uses the browser through a driver so it can run on other versions of puppeteer or a fake
+ */
+export interface PageDriver {
+    page: Page
+    mainFrame() : FrameDriver
+    /** driver for a frame of the page.  The same driver is returned for each frame */
+    frame(frame:Frame) : FrameDriver
+    /** drivers for all frames of the page */
+    frames() : FrameDriver[]
+    url() : string
+
+    /** driver for another page of the same browser such as a popup */
+    pageDriver(page:Page) : PageDriver
+    /** opens a new page in the same browser context */
+    newPage() : Promise<PageDriver>
+
+    on(event:DriverEvent, listener:(...args:any[]) => void) : void
+    off(event:DriverEvent, listener:(...args:any[]) => void) : void
+
+    /**
+     * Sends a devtools protocol command for the page
+     */
+    send(method:string, params?:object) : Promise<any>
+    onProtocolEvent(event:string, listener:(event:any) => void) : Promise<void>
+    offProtocolEvent(event:string, listener:(event:any) => void) : Promise<void>
+
+    /**
+     * Intercepted requests are received by 'request' listeners which must continue, respond to or abort each request
+     */
+    setRequestInterception(enabled:boolean) : Promise<void>
+    setCookies(cookies:SetCookie[]) : Promise<void>
+
+    /**
+     * Evaluates the page function in every frame whenever a new document is created
+     */
+    addInitScript(pageFunction:EvaluateFn, ...args:SerializableOrJSHandle[]) : Promise<void>
+
+    /** base64 png */
+    screenshot() : Promise<string>
+    close() : Promise<void>
+    isClosed() : boolean
+}
+
+/**
+ * xpath expressions start with '/', './' or '('
+ */
+export function isXPath(selector:string) {
+    return selector.startsWith('/') || selector.startsWith('./') || selector.startsWith('(')
+}
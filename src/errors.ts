@@ -0,0 +1,119 @@
+export type NavigatorErrorKind = 'notFound' | 'notVisible' | 'optionNotFound' | 'frameNotFound' | 'timeout' | 'detached' | 'unexpectedDialog' | 'routeFailed' | 'navigationFailed'
+
+export interface NavigatorErrorDetails {
+    /** navigator action which failed such as 'click' */
+    action: string
+    /** selector the action was performed on */
+    selector?: string
+    /** url of the navigator frame when the action failed */
+    frameUrl?: string
+    /** milliseconds from the start of the action until it failed, including all retries */
+    elapsedTime?: number
+    /** base64 png of the page when the action failed */
+    screenshot?: string
+    /** original error such as a puppeteer TimeoutError */
+    cause?: Error
+}
+
+/**
+ * Error thrown by all navigator actions
+ */
+export class NavigatorError extends Error implements NavigatorErrorDetails {
+    kind: NavigatorErrorKind
+    action: string
+    selector?: string
+    frameUrl?: string
+    elapsedTime?: number
+    screenshot?: string
+    cause?: Error
+
+    constructor(kind:NavigatorErrorKind, message:string, details:NavigatorErrorDetails) {
+        super(message)
+        this.name = 'NavigatorError'
+        this.kind = kind
+        this.action = details.action
+        this.selector = details.selector
+        this.frameUrl = details.frameUrl
+        this.elapsedTime = details.elapsedTime
+        this.screenshot = details.screenshot
+        this.cause = details.cause
+    }
+}
+
+/**
+ * Retry policy applied to click, type, select and frameNavigator actions
+ */
+export interface RetryPolicy {
+    /** total number of attempts. default 1 */
+    attempts?: number
+    /** milliseconds to wait before the next attempt, or a function of the failed attempt number. default 250 */
+    backoff?: number | ((attempt:number) => number)
+    /** error kinds which are retried. default notFound, notVisible, detached and timeout */
+    retryOn?: NavigatorErrorKind[]
+}
+
+export const defaultRetryPolicy:Required<RetryPolicy> = {
+    attempts: 1,
+    backoff: 250,
+    retryOn: ['notFound', 'notVisible', 'detached', 'timeout']
+}
+
+/**
+ * Converts errors thrown by puppeteer into a NavigatorError.
+ * Errors which can not be classified are returned unchanged.
+ */
+export function toNavigatorError(error:any, details:NavigatorErrorDetails) : Error {
+    if (error instanceof NavigatorError) return error
+
+    const message = error && error.message || String(error)
+    let kind:NavigatorErrorKind = 'timeout'
+    if (/detached|Execution context was destroyed|Cannot find context|JSHandle is disposed/i.test(message))
+        kind = 'detached'
+    else if (/No node found for selector|failed to find element/i.test(message))
+        kind = 'notFound'
+    else if (!(error && error.name === 'TimeoutError'))
+        // not an error we can classify, so leave it as is
+        return error
+
+    return new NavigatorError(kind, message, {...details, cause: error})
+}
+
+/**
+ * Error thrown when an expectation is not met before its timeout
+ */
+export class ExpectationError extends Error {
+    /** matcher name such as 'toHaveText' */
+    matcher: string
+    selector?: string
+    expected: any
+    /** last actual value seen before the timeout */
+    actual: any
+
+    constructor(matcher:string, selector:string | undefined, expected:any, actual:any, timeout:number) {
+        super(`expect(${selector === undefined ? '' : JSON.stringify(selector)}).${matcher}(${formatValue(expected)}) not met after ${timeout}ms. Last actual value: ${formatValue(actual)}`)
+        this.name = 'ExpectationError'
+        this.matcher = matcher
+        this.selector = selector
+        this.expected = expected
+        this.actual = actual
+    }
+}
+
+/**
+ * Error reporting all soft expectations which were not met
+ */
+export class SoftExpectationsError extends Error {
+    failures: ExpectationError[]
+
+    constructor(failures:ExpectationError[]) {
+        super(`${failures.length} expectation(s) not met\n` + failures.map(failure => failure.message).join('\n'))
+        this.name = 'SoftExpectationsError'
+        this.failures = failures
+    }
+}
+
+function formatValue(value:any) {
+    if (value === undefined) return ''
+    if (value instanceof RegExp) return String(value)
+    return JSON.stringify(value)
+}
@@ -0,0 +1,117 @@
+import { Navigator } from "./navigator";
+import { ExpectationError } from "./errors";
+
+export interface ExpectOptions {
+    /** milliseconds to keep retrying before the expectation fails. default the expectTimeout option */
+    timeout?: number
+    /** record the failure and continue instead of throwing. default the softExpect option */
+    soft?: boolean
+}
+
+/**
+ * Matchers retry until the expectation is met or the timeout is reached
+ */
+export interface Matchers {
+    /** trimmed text content of the first element equals the text or matches the pattern */
+    toHaveText(text:string | RegExp) : Promise<void>
+    /** text content of the first element contains the text */
+    toContainText(text:string) : Promise<void>
+    /** value of the first element equals the value or matches the pattern */
+    toHaveValue(value:string | RegExp) : Promise<void>
+    /** first element exists and is visible */
+    toBeVisible() : Promise<void>
+    /** no element exists or the first element is not visible */
+    toBeHidden() : Promise<void>
+    /** number of elements matching the selector */
+    toHaveCount(count:number) : Promise<void>
+    /** first element has the attribute, and if given its value equals the value or matches the pattern */
+    toHaveAttribute(name:string, value?:string | RegExp) : Promise<void>
+    /** url of the navigator's frame equals the url or matches the pattern */
+    toHaveUrl(url:string | RegExp) : Promise<void>
+}
+
+export interface ExpectContext {
+    navigator: Navigator
+    selector?: string
+    timeout: number
+    soft: boolean
+    /** soft expectation failures are added to this list */
+    failures: ExpectationError[]
+    /** runs each matcher.  Allows the navigator to trace matchers as a single action */
+    runMatcher: (matcher:string, args:any[], matcherFn:() => Promise<void>) => Promise<void>
+}
+
+interface ElementState {
+    text: string
+    value?: string
+    visible: boolean
+    attributes: {[name:string]: string}
+}
+
+const pollInterval = 100
+
+function matches(actual:string | undefined, expected:string | RegExp) {
+    if (actual === undefined || actual === null) return false
+    return typeof expected === 'string' ? actual === expected : expected.test(actual)
+}
+
+export function makeMatchers(context:ExpectContext) : Matchers {
+    const {navigator, selector, timeout} = context
+
+    async function readElements() : Promise<ElementState[]> {
+        if (selector === undefined) throw new Error('expect requires a selector for element matchers')
+        return await navigator.queryElements(selector, element => {
+            // same visibility test used by puppeteer
+            const style = window.getComputedStyle(element)
+            const rect = element.getBoundingClientRect()
+            const attributes:{[name:string]: string} = {}
+            for (const attribute of Array.from(element.attributes)) attributes[attribute.name] = attribute.value
+            return {
+                text: (element.textContent || '').trim(),
+                value: element.value,
+                visible: style.visibility !== 'hidden' && !!(rect.top || rect.bottom || rect.width || rect.height),
+                attributes
+            }
+        })
+    }
+
+    /**
+     * Reads the actual value until it passes or the timeout is reached
+     */
+    function expectation<T>(matcher:string, expected:any, readActual:() => Promise<T>, passes:(actual:T) => boolean) {
+        return context.runMatcher(matcher, expected === undefined ? [] : [expected], async () => {
+            const deadline = Date.now() + timeout
+            let actual:any
+            while (true) {
+                try {
+                    actual = await readActual()
+                    if (passes(actual)) return
+                } catch (error) {
+                    // the element may be re-rendering or the frame navigating, so keep trying
+                    actual = error && error.message || String(error)
+                }
+                if (Date.now() >= deadline) break
+                await new Promise(resolve => setTimeout(resolve, pollInterval))
+            }
+
+            const failure = new ExpectationError(matcher, selector, expected, actual, timeout)
+            if (!context.soft) throw failure
+            context.failures.push(failure)
+        })
+    }
+
+    const firstElement = async () => (await readElements())[0]
+
+    return {
+        toHaveText: text => expectation('toHaveText', text, async () => (await firstElement())?.text, actual => matches(actual, text)),
+        toContainText: text => expectation('toContainText', text, async () => (await firstElement())?.text, actual => actual !== undefined && actual.includes(text)),
+        toHaveValue: value => expectation('toHaveValue', value, async () => (await firstElement())?.value, actual => matches(actual, value)),
+        toBeVisible: () => expectation('toBeVisible', undefined, async () => (await firstElement())?.visible, actual => actual === true),
+        toBeHidden: () => expectation('toBeHidden', undefined, async () => (await firstElement())?.visible, actual => !actual),
+        toHaveCount: count => expectation('toHaveCount', count, async () => (await readElements()).length, actual => actual === count),
+        toHaveAttribute: (name, value) => expectation('toHaveAttribute', value === undefined ? name : [name, value],
+            async () => (await firstElement())?.attributes[name],
+            actual => actual !== undefined && (value === undefined || matches(actual, value))),
+        toHaveUrl: url => expectation('toHaveUrl', url, async () => navigator.frame().url(), actual => matches(actual, url))
+    }
+}
@@ -0,0 +1,319 @@
+import { ElementHandle, Frame, Page } from "puppeteer";
+import { EventEmitter } from "events";
+import { DriverEvent, FrameDriver, PageDriver, WaitForSelectorOptions } from "./driver";
+
+export interface FakeDriverOptions {
+    /** url of the main frame. default 'about:blank' */
+    url?: string
+    /** milliseconds waitForSelector and waitForFunction wait when no timeout is given. default 100 */
+    timeout?: number
+}
+
+export interface FakeElementOptions {
+    /** default true */
+    visible?: boolean
+    /** properties of the element seen by page functions such as value or textContent */
+    properties?: {[name:string]: any}
+}
+
+/**
+ * Element handle of the fake driver.  Page functions receive the fake element itself
+ */
+export interface FakeElement {
+    selector: string
+    visible: boolean
+    isConnected: boolean
+    /** records a 'element.click' call */
+    click() : void
+    [property:string]: any
+}
+
+export interface FakeDriverCall {
+    method: string
+    args: any[]
+    frameUrl: string
+}
+
+export type FakeScriptableMethod = Exclude<keyof FrameDriver, 'frame' | 'url'>
+
+export interface FakeFrameDriver extends FrameDriver {
+    /**
+     * Adds an element found by the selector.  Elements added later are returned after elements added earlier
+     */
+    addElement(selector:string, elementOptions?:FakeElementOptions) : ElementHandle
+    /**
+     * Removes all elements found by the selector.  Removed elements are no longer connected
+     */
+    removeElement(selector:string) : void
+    /**
+     * Adds an iframe element found by the selector and returns the driver for its frame
+     */
+    addFrame(selector:string, url:string) : FakeFrameDriver
+    /**
+     * Replaces the behaviour of a method for this frame.  The behaviour receives the method arguments
+     */
+    script<M extends FakeScriptableMethod>(method:M, behaviour:FrameDriver[M]) : void
+}
+
+export interface FakeDriver extends PageDriver {
+    mainFrame() : FakeFrameDriver
+    pageDriver(page:Page) : FakeDriver
+    newPage() : Promise<FakeDriver>
+    /**
+     * Opens a page with the url and emits the 'popup' event for it.  Returns the driver of the popup
+     */
+    openPopup(url?:string) : FakeDriver
+    /** all driver calls in the order they were made */
+    calls: FakeDriverCall[]
+    /** emits a page event such as 'request' or 'dialog' */
+    emit(event:DriverEvent, ...args:any[]) : void
+    emitProtocolEvent(event:string, data:any) : void
+    /** replaces the behaviour of devtools protocol commands */
+    scriptSend(behaviour:(method:string, params?:object) => Promise<any>) : void
+}
+
+/**
+ * Object which throws for any member not explicitly implemented, so unsupported uses of the fake are reported clearly
+ */
+function makeStub<T>(name:string, members:object) : T {
+    return new Proxy(members, {
+        get: (target:any, member) => {
+            if (member in target || typeof member === 'symbol' || member === 'then') return target[member]
+            throw new Error(`${name}.${String(member)} is not supported by the fake driver`)
+        }
+    }) as T
+}
+
+function timeoutError(message:string) {
+    const error = new Error(message)
+    error.name = 'TimeoutError'
+    return error
+}
+
+/**
+ * Driver which runs without a browser so the navigator's own logic can be tested quickly.
+ *
+ * Elements are added by selector and queries return them regardless of the document structure.
+ * Page functions run in node with fake elements as their element arguments,
+ * so functions which use the document must be scripted with script('evaluate', ...).
+ * waitForTimeout resolves immediately and is only recorded.
+ */
+export function makeFakeDriver(fakeOptions:FakeDriverOptions = {}) : FakeDriver {
+    return makeFakePage(fakeOptions, new Map())
+}
+
+/**
+ * @param pageDrivers drivers of all pages of the fake browser by page
+ */
+function makeFakePage(fakeOptions:FakeDriverOptions, pageDrivers:Map<Page, FakeDriver>) : FakeDriver {
+    const defaultTimeout = fakeOptions.timeout === undefined ? 100 : fakeOptions.timeout
+    const events = new EventEmitter()
+    const protocolEvents = new EventEmitter()
+    const calls:FakeDriverCall[] = []
+    let isClosed = false
+    const fakeFrames:FakeFrameDriver[] = []
+    let sendBehaviour:(method:string, params?:object) => Promise<any> = async method => method === 'Network.getAllCookies' ? {cookies: []} : {}
+
+    function recordPageCall(method:string, args:any[]) {
+        calls.push({method, args, frameUrl: mainFrame.url()})
+    }
+
+    /**
+     * @param parentFrame frame containing the frame element, or null for the main frame
+     */
+    function makeFakeFrame(url:string, parentFrame:Frame | null) : FakeFrameDriver {
+        let frameUrl = url
+        const elements = new Map<string, FakeElement[]>()
+        const behaviours:{[method:string]: Function} = {}
+        let navigationWaiters:(() => void)[] = []
+
+        const frame = makeStub<Frame>('frame', {url: () => frameUrl, name: () => '', isDetached: () => false, parentFrame: () => parentFrame})
+
+        function record(method:string, args:any[]) {
+            calls.push({method, args, frameUrl})
+        }
+
+        function findElements(selector:string) {
+            return elements.get(selector) || []
+        }
+
+        async function poll<T>(test:() => T, timeout:number | undefined, message:string) : Promise<T> {
+            const deadline = Date.now() + (timeout === undefined ? defaultTimeout : timeout)
+            while (true) {
+                const result = test()
+                if (result) return result
+                if (Date.now() >= deadline) throw timeoutError(message)
+                await new Promise(resolve => setTimeout(resolve, 10))
+            }
+        }
+
+        function wrapHandle(value:any) : any {
+            if (value && value.selector !== undefined && value.isConnected !== undefined) return value
+            return {asElement: () => null, jsonValue: async () => value, dispose: async () => {}}
+        }
+
+        const defaultBehaviours:{[M in FakeScriptableMethod]: FrameDriver[M]} = {
+            query: async selector => findElements(selector)[0] as any || null,
+            queryAll: async selector => findElements(selector) as any[],
+            evaluate: async (pageFunction, ...args) => (pageFunction as Function)(...args),
+            evaluateHandle: async (pageFunction, ...args) => wrapHandle(await (pageFunction as Function)(...args)),
+            waitForSelector: (selector, waitOptions:WaitForSelectorOptions = {}) =>
+                poll(() => findElements(selector).find(element => !waitOptions.visible || element.visible) as any, waitOptions.timeout, 'Waiting for selector ' + selector + ' failed'),
+            waitForFunction: (pageFunction, waitOptions = {}, ...args) =>
+                poll(() => (pageFunction as Function)(...args), waitOptions.timeout, 'Waiting for function failed').then(wrapHandle),
+            waitForTimeout: async () => {},
+            goto: async url => {
+                await Promise.resolve()
+                frameUrl = url
+                events.emit('framenavigated', frame)
+                if (!parentFrame) events.emit('domcontentloaded')
+                const waiters = navigationWaiters
+                navigationWaiters = []
+                waiters.forEach(resolve => resolve())
+                return null
+            },
+            waitForNavigation: () => new Promise<any>(resolve => navigationWaiters.push(() => resolve(null))),
+            click: async () => {},
+            type: async (element, text) => {
+                const fakeElement = element as unknown as FakeElement
+                fakeElement.value = (fakeElement.value || '') + text
+            },
+            uploadFile: async () => {},
+            contentFrame: async element => (element as unknown as FakeElement).contentFrame || null
+        }
+
+        const driver:any = {
+            frame,
+            url: () => frameUrl,
+
+            addElement: function (selector:string, elementOptions:FakeElementOptions = {}) {
+                const element:FakeElement = {
+                    ...elementOptions.properties,
+                    selector,
+                    visible: elementOptions.visible === undefined ? true : elementOptions.visible,
+                    isConnected: true,
+                    click: () => record('element.click', [selector]),
+                    asElement: () => element,
+                    dispose: async () => {}
+                }
+                elements.set(selector, findElements(selector).concat(element))
+                return element as unknown as ElementHandle
+            },
+
+            removeElement: function (selector:string) {
+                findElements(selector).forEach(element => element.isConnected = false)
+                elements.delete(selector)
+            },
+
+            addFrame: function (selector:string, url:string) {
+                const childFrame = makeFakeFrame(url, frame)
+                const element = driver.addElement(selector, {properties: {tagName: 'IFRAME'}})
+                element.contentFrame = childFrame
+                return childFrame
+            },
+
+            script: function (method:FakeScriptableMethod, behaviour:Function) {
+                behaviours[method] = behaviour
+            }
+        }
+        for (const method of Object.keys(defaultBehaviours) as FakeScriptableMethod[]) {
+            driver[method] = function (...args:any[]) {
+                record(method, args)
+                return (behaviours[method] || defaultBehaviours[method] as Function)(...args)
+            }
+        }
+        fakeFrames.push(driver)
+        return driver
+    }
+
+    const mainFrame = makeFakeFrame(fakeOptions.url || 'about:blank', null)
+    const page = makeStub<Page>('page', {
+        url: () => mainFrame.url(),
+        mainFrame: () => mainFrame.frame,
+        frames: () => [mainFrame.frame],
+        isClosed: () => isClosed,
+        bringToFront: async () => recordPageCall('bringToFront', []),
+        on: (event:string, listener:any) => events.on(event, listener),
+        once: (event:string, listener:any) => events.once(event, listener),
+        off: (event:string, listener:any) => events.off(event, listener),
+        removeListener: (event:string, listener:any) => events.off(event, listener)
+    })
+
+    const fakeDriver:FakeDriver = {
+        page,
+        calls,
+        mainFrame: () => mainFrame,
+        frame: (frame:Frame) => {
+            const fakeFrame = fakeFrames.find(fakeFrame => fakeFrame.frame === frame)
+            if (!fakeFrame) throw new Error('Frames of the fake driver are created with addFrame')
+            return fakeFrame
+        },
+        frames: () => fakeFrames.slice(),
+        url: () => mainFrame.url(),
+
+        pageDriver: (otherPage:Page) => {
+            const otherDriver = pageDrivers.get(otherPage)
+            if (!otherDriver) throw new Error('Pages of the fake driver are created with openPopup or newPage')
+            return otherDriver
+        },
+        newPage: async function () {
+            recordPageCall('newPage', [])
+            return makeFakePage({timeout: fakeOptions.timeout}, pageDrivers)
+        },
+        openPopup: function (url = 'about:blank') {
+            const popupDriver = makeFakePage({url, timeout: fakeOptions.timeout}, pageDrivers)
+            events.emit('popup', popupDriver.page)
+            return popupDriver
+        },
+
+        on: (event, listener) => {
+            events.on(event, listener)
+        },
+        off: (event, listener) => {
+            events.off(event, listener)
+        },
+        emit: (event, ...args) => {
+            events.emit(event, ...args)
+        },
+
+        send: async function (method, params) {
+            recordPageCall('send', [method, params])
+            return await sendBehaviour(method, params)
+        },
+        onProtocolEvent: async (event, listener) => {
+            protocolEvents.on(event, listener)
+        },
+        offProtocolEvent: async (event, listener) => {
+            protocolEvents.off(event, listener)
+        },
+        emitProtocolEvent: (event, data) => {
+            protocolEvents.emit(event, data)
+        },
+        scriptSend: behaviour => {
+            sendBehaviour = behaviour
+        },
+        setRequestInterception: async function (enabled) {
+            recordPageCall('setRequestInterception', [enabled])
+        },
+        setCookies: async function (cookies) {
+            recordPageCall('setCookies', [cookies])
+        },
+
+        addInitScript: async function (pageFunction, ...args) {
+            recordPageCall('addInitScript', [pageFunction, ...args])
+        },
+
+        screenshot: async () => {
+            recordPageCall('screenshot', [])
+            return ''
+        },
+        close: async () => {
+            recordPageCall('close', [])
+            isClosed = true
+            events.emit('close')
+        },
+        isClosed: () => isClosed
+    }
+    pageDrivers.set(page, fakeDriver)
+    return fakeDriver
+}
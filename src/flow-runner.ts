@@ -0,0 +1,261 @@
+import { Page } from "puppeteer";
+import { makePageNavigator, Navigator, NavigatorOptions } from "./navigator";
+import fs from 'fs'
+
+/**
+ * A single step of a flow.  Each step is an object with exactly one action key.
+ *
+ * - `{goto: url}` or `{goto: [url, waitCondition]}`
+ * - `{click: selector}`
+ * - `{type: [selector, text]}`
+ * - `{select: [selector, {value?, label?}]}`
+ * - `{wait: selector | milliseconds}`
+ * - `{extract: {name: selector | ExtractSpec}}`
+ * - `{frame: [selector, steps]}` runs the nested steps using a navigator for the frame
+ */
+export type FlowStep =
+    { goto: string | [string, (string | number)?] } |
+    { click: string } |
+    { type: [string, string] } |
+    { select: [string, {value?:string, label?:string}] } |
+    { wait: string | number } |
+    { extract: {[name:string]: string | ExtractSpec} } |
+    { frame: [string, FlowStep[]] }
+
+/**
+ * Describes how a value is extracted from the element(s) matching the selector
+ */
+export interface ExtractSpec {
+    /** css selector or xpath */
+    selector: string
+    /** extract the named attribute.  default extracts the trimmed text content */
+    attribute?: string
+    /** extract the named element property such as 'value' or 'checked' */
+    property?: string
+    /** extract a list of values from all matching elements. default false */
+    all?: boolean
+}
+
+export interface FlowOptions {
+    /** values substituted for '${name}' in all step strings */
+    variables?: {[name:string]: string}
+    /** options used when a navigator is created for a page */
+    navigatorOptions?: NavigatorOptions
+}
+
+export interface FlowStepResult {
+    /** position of the step.  Steps nested in a frame step are separated by '.' such as '3.1' */
+    path: string
+    action: string
+    /** step arguments after variable substitution */
+    args: any
+    outcome: 'success' | 'error'
+    error?: string
+    /** milliseconds */
+    duration: number
+}
+
+export interface FlowResult {
+    /** true if all steps completed */
+    success: boolean
+    /** values from all extract steps by name */
+    values: {[name:string]: any}
+    steps: FlowStepResult[]
+    /** the step which failed, if any */
+    failedStep?: FlowStepResult
+}
+
+const flowActions = ['goto', 'click', 'type', 'select', 'wait', 'extract', 'frame']
+
+/**
+ * Validates the flow steps and returns a list of problems found.  An empty list means the flow is valid.
+ * @param steps flow steps
+ * @param variables names available for substitution
+ */
+export function validateFlow(steps:any, variables:{[name:string]: string} = {}, path = '') : string[] {
+    if (!Array.isArray(steps)) return [`${path || 'flow'}: steps must be an array`]
+
+    const problems:string[] = []
+    steps.forEach((step:any, index:number) => {
+        const stepPath = path + (index + 1)
+        const problem = (message:string) => problems.push(`step ${stepPath}: ${message}`)
+
+        if (!step || typeof step !== 'object' || Array.isArray(step)) return problem('must be an object')
+        const keys = Object.keys(step)
+        if (keys.length !== 1) return problem(`must have exactly one action, found '${keys.join(', ')}'`)
+        const action = keys[0]
+        const args = step[action]
+        if (!flowActions.includes(action)) return problem(`unknown action '${action}'`)
+
+        for (const name of variableNames(args)) {
+            if (!(name in variables)) problem(`undefined variable '${name}'`)
+        }
+
+        switch (action) {
+            case 'goto':
+                if (!(typeof args === 'string' || (Array.isArray(args) && typeof args[0] === 'string' && args.length <= 2)))
+                    problem('goto expects url or [url, waitCondition]')
+                break
+            case 'click':
+                if (typeof args !== 'string') problem('click expects selector')
+                break
+            case 'type':
+                if (!(Array.isArray(args) && args.length === 2 && typeof args[0] === 'string' && typeof args[1] === 'string'))
+                    problem('type expects [selector, text]')
+                break
+            case 'select':
+                if (!(Array.isArray(args) && args.length === 2 && typeof args[0] === 'string' && args[1] && (typeof args[1].value === 'string' || typeof args[1].label === 'string')))
+                    problem('select expects [selector, {value} or {label}]')
+                break
+            case 'wait':
+                if (typeof args !== 'string' && typeof args !== 'number') problem('wait expects selector or milliseconds')
+                break
+            case 'extract':
+                if (!args || typeof args !== 'object' || Array.isArray(args)) {
+                    problem('extract expects {name: selector}')
+                    break
+                }
+                for (const name of Object.keys(args)) {
+                    const spec = args[name]
+                    if (typeof spec !== 'string' && !(spec && typeof spec.selector === 'string'))
+                        problem(`extract '${name}' expects selector or {selector}`)
+                }
+                break
+            case 'frame':
+                if (!(Array.isArray(args) && args.length === 2 && typeof args[0] === 'string')) {
+                    problem('frame expects [selector, steps]')
+                    break
+                }
+                problems.push(...validateFlow(args[1], variables, stepPath + '.'))
+                break
+        }
+    })
+    return problems
+}
+
+/**
+ * Reads flow steps from a JSON file
+ * @param filePath path to JSON file containing an array of steps
+ */
+export async function loadFlow(filePath:string) : Promise<FlowStep[]> {
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+}
+
+/**
+ * Runs the flow steps.
+ * Throws if the flow is not valid.  Otherwise stops at the first failing step and reports it in the result.
+ * @param target page to create a navigator for or an existing navigator
+ * @param steps flow steps
+ * @param flowOptions variables and navigator options
+ */
+export async function runFlow(target:Page | Navigator, steps:FlowStep[], flowOptions:FlowOptions = {}) : Promise<FlowResult> {
+    const variables = flowOptions.variables || {}
+    const problems = validateFlow(steps, variables)
+    if (problems.length) throw new Error('Invalid flow\n' + problems.join('\n'))
+
+    const navigator = isNavigator(target) ? target : makePageNavigator(target, flowOptions.navigatorOptions)
+    const result:FlowResult = {success: true, values: {}, steps: []}
+    await runSteps(navigator, substituteVariables(steps, variables), '', result)
+    return result
+}
+
+async function runSteps(navigator:Navigator, steps:FlowStep[], path:string, result:FlowResult) {
+    for (const [index, step] of steps.entries()) {
+        const action = Object.keys(step)[0]
+        const args = (step as any)[action]
+        const stepResult:FlowStepResult = {path: path + (index + 1), action, args, outcome: 'success', duration: 0}
+        result.steps.push(stepResult)
+
+        const startTime = Date.now()
+        try {
+            await runStep(navigator, action, args, stepResult.path, result)
+        } catch (error) {
+            stepResult.outcome = 'error'
+            stepResult.error = error && error.message || String(error)
+        }
+        stepResult.duration = Date.now() - startTime
+
+        // a failed nested step has already been reported as the failed step, and also fails the frame step containing it
+        if (!result.success) {
+            stepResult.outcome = 'error'
+            stepResult.error = result.failedStep!.error
+            return
+        }
+        if (stepResult.outcome === 'error') {
+            result.success = false
+            result.failedStep = stepResult
+            return
+        }
+    }
+}
+
+async function runStep(navigator:Navigator, action:string, args:any, path:string, result:FlowResult) {
+    switch (action) {
+        case 'goto':
+            if (typeof args === 'string') return await navigator.goto(args)
+            return await navigator.goto(args[0], args[1])
+        case 'click':
+            return await navigator.click(args)
+        case 'type':
+            return await navigator.type(args[0], args[1])
+        case 'select':
+            return await navigator.select(args[0], args[1])
+        case 'wait':
+            return await navigator.wait(args)
+        case 'extract':
+            for (const name of Object.keys(args)) {
+                result.values[name] = await extractValue(navigator, args[name])
+            }
+            return
+        case 'frame':
+            const frameNavigator = await navigator.frameNavigator(args[0])
+            return await runSteps(frameNavigator, args[1], path + '.', result)
+    }
+}
+
+async function extractValue(navigator:Navigator, spec:string | ExtractSpec) {
+    if (typeof spec === 'string') spec = {selector: spec}
+
+    // map functions are sent to the page as source text, so extract everything we might need and choose in node
+    const elementValues = await navigator.queryElements(spec.selector, element => {
+        const attributes:{[name:string]: string} = {}
+        for (const attribute of Array.from(element.attributes)) attributes[attribute.name] = attribute.value
+        const properties:{[name:string]: any} = {}
+        for (const name of ['value', 'checked', 'selected', 'disabled', 'href', 'src', 'innerHTML', 'innerText']) {
+            if (name in element) properties[name] = element[name]
+        }
+        return {text: (element.textContent || '').trim(), attributes, properties}
+    })
+
+    const values = elementValues.map(elementValue => {
+        if ((spec as ExtractSpec).attribute) return elementValue.attributes[(spec as ExtractSpec).attribute!]
+        if ((spec as ExtractSpec).property) return elementValue.properties[(spec as ExtractSpec).property!]
+        return elementValue.text
+    })
+    if (spec.all) return values
+    if (!values.length) throw new Error('Element not found ' + spec.selector)
+    return values[0]
+}
+
+function isNavigator(target:Page | Navigator) : target is Navigator {
+    return typeof (target as Navigator).frameNavigator === 'function'
+}
+
+const variablePattern = /\$\{(\w+)\}/g
+
+function variableNames(value:any) : string[] {
+    if (typeof value === 'string') return Array.from(value.matchAll(variablePattern), match => match[1])
+    if (value && typeof value === 'object') return ([] as string[]).concat(...Object.values(value).map(variableNames))
+    return []
+}
+
+function substituteVariables(value:any, variables:{[name:string]: string}) : any {
+    if (typeof value === 'string') return value.replace(variablePattern, (match, name) => variables[name])
+    if (Array.isArray(value)) return value.map(item => substituteVariables(item, variables))
+    if (value && typeof value === 'object') {
+        const substituted:{[key:string]:any} = {}
+        for (const key of Object.keys(value)) substituted[key] = substituteVariables(value[key], variables)
+        return substituted
+    }
+    return value
+}
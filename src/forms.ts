@@ -0,0 +1,161 @@
+/**
+ * Form field values.
+ * - text, textarea, date, contenteditable and single select fields use a string
+ * - checkboxes use a boolean, or a list of checked values for a group of checkboxes sharing a name
+ * - radios use the value of the checked radio
+ * - multiple selects use a list of option values or labels
+ * - file inputs use a file path or list of file paths
+ */
+export type FormValue = string | number | boolean | Date | string[] | null
+export type FormValues = {[field:string]: FormValue}
+
+export interface FillFormResult {
+    /** fields which could not be found */
+    missingFields: string[]
+    /** select fields for which no option matched */
+    missingOptions: string[]
+    /** file input fields.  Files can not be set from within the page */
+    fileFields: string[]
+}
+
+/**
+ * Formats the local date and time of a date as 'YYYY-MM-DDTHH:mm:ss.sss' so date inputs are filled with the date the user sees.
+ * toISOString would give the UTC date, which is the previous day for local midnight east of UTC
+ */
+export function formatLocalDate(date:Date) : string {
+    const pad = (value:number, length = 2) => String(value).padStart(length, '0')
+    return `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+        `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`
+}
+
+/**
+ * Finds form fields by name, id, label text or aria-label.
+ * Runs within the browser page
+ */
+export function findFormFields(form:Element, field:string) : Element[] {
+    const byName = Array.from(form.querySelectorAll('[name]')).filter(element => element.getAttribute('name') === field)
+    if (byName.length) return byName
+
+    const byId = Array.from(form.querySelectorAll('[id]')).filter(element => element.id === field)
+    if (byId.length) return byId
+
+    for (const label of Array.from(form.querySelectorAll('label'))) {
+        if ((label.textContent || '').trim() === field && label.control) return [label.control]
+    }
+
+    return Array.from(form.querySelectorAll('[aria-label]')).filter(element => element.getAttribute('aria-label') === field)
+}
+
+/**
+ * Sets the value of each field and dispatches the input and change events a user would trigger.
+ * Runs within the browser page
+ */
+export function fillFormFields(form:Element, values:{[field:string]: any}, findFormFieldsText:string) : FillFormResult {
+    // Functions can not be passed as parameters to the browser page
+    // So we pass in the function source text and recreate the function within the browser page
+    const findFormFields = new Function(' return (' + findFormFieldsText + ').apply(null, arguments)') as (form:Element, field:string) => Element[]
+    const result:FillFormResult = {missingFields: [], missingOptions: [], fileFields: []}
+
+    function dispatchEvents(element:Element) {
+        element.dispatchEvent(new Event('input', {bubbles: true}))
+        element.dispatchEvent(new Event('change', {bubbles: true}))
+    }
+    function setValue(element:HTMLInputElement | HTMLTextAreaElement, value:string) {
+        // use the native setter so frameworks tracking the value property see the change
+        const valueSetter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(element), 'value')!.set!
+        valueSetter.call(element, value)
+        dispatchEvents(element)
+    }
+    function matchesOption(option:HTMLOptionElement, value:string) {
+        // Remove any control characters from option values or labels
+        return option.value.replace(/[^\x00-\x7F]/g, '') === value || option.label.replace(/[^\x00-\x7F]/g, '') === value
+    }
+
+    for (const field of Object.keys(values)) {
+        const value = values[field]
+        const elements = findFormFields(form, field)
+        const element = elements[0] as any
+        if (!element) {
+            result.missingFields.push(field)
+            continue
+        }
+
+        if (element instanceof HTMLSelectElement) {
+            const selectValues = (Array.isArray(value) ? value : [value]).map(String)
+            const options = Array.from(element.options)
+            if (!selectValues.every(selectValue => options.some(option => matchesOption(option, selectValue)))) {
+                result.missingOptions.push(field)
+                continue
+            }
+            for (const option of options) {
+                option.selected = selectValues.some(selectValue => matchesOption(option, selectValue))
+                if (option.selected && !element.multiple) break
+            }
+            dispatchEvents(element)
+        } else if (element instanceof HTMLInputElement && element.type === 'file') {
+            result.fileFields.push(field)
+        } else if (element instanceof HTMLInputElement && element.type === 'checkbox') {
+            for (const checkbox of elements as HTMLInputElement[]) {
+                const checked = Array.isArray(value) ? value.includes(checkbox.value) : !!value
+                // clicking triggers the same events as a user
+                if (checkbox.checked !== checked) checkbox.click()
+            }
+        } else if (element instanceof HTMLInputElement && element.type === 'radio') {
+            const radio = (elements as HTMLInputElement[]).find(radio => radio.value === String(value) || (radio.labels && Array.from(radio.labels).some(label => (label.textContent || '').trim() === value)))
+            if (!radio) {
+                result.missingOptions.push(field)
+                continue
+            }
+            if (!radio.checked) radio.click()
+        } else if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+            let text = value === null || value === undefined ? '' : String(value)
+            // dates are sent as local ISO strings without a timezone.  Date inputs only accept part of the ISO format
+            if (element.type === 'date' && /^\d{4}-\d\d-\d\dT/.test(text)) text = text.substring(0, 10)
+            if (element.type === 'datetime-local' && /^\d{4}-\d\d-\d\dT/.test(text)) text = text.substring(0, 16)
+            element.focus()
+            setValue(element, text)
+        } else if (element.isContentEditable) {
+            element.focus()
+            element.textContent = value === null || value === undefined ? '' : String(value)
+            dispatchEvents(element)
+        } else {
+            result.missingFields.push(field)
+        }
+    }
+    return result
+}
+
+/**
+ * Reads the values of all named fields in the form.  Fields without a name are keyed by id or aria-label.
+ * Runs within the browser page
+ */
+export function readFormFields(form:Element) : FormValues {
+    const values:FormValues = {}
+    const fields = Array.from(form.querySelectorAll('input, select, textarea, [contenteditable=""], [contenteditable="true"]')) as any[]
+    const fieldKey = (element:Element) => element.getAttribute('name') || element.id || element.getAttribute('aria-label')
+
+    for (const element of fields) {
+        const key = fieldKey(element)
+        if (!key || key in values) continue
+        const group = fields.filter(other => fieldKey(other) === key)
+
+        if (element instanceof HTMLSelectElement) {
+            const selected = Array.from(element.selectedOptions).map(option => option.value)
+            values[key] = element.multiple ? selected : selected[0] || ''
+        } else if (element instanceof HTMLInputElement && element.type === 'checkbox') {
+            values[key] = group.length > 1 ? group.filter(checkbox => checkbox.checked).map(checkbox => checkbox.value) : element.checked
+        } else if (element instanceof HTMLInputElement && element.type === 'radio') {
+            const checked = group.find(radio => radio.checked)
+            values[key] = checked ? checked.value : null
+        } else if (element instanceof HTMLInputElement && element.type === 'file') {
+            values[key] = Array.from(element.files || []).map(file => file.name)
+        } else if (element instanceof HTMLInputElement && ['button', 'submit', 'reset', 'image'].includes(element.type)) {
+            continue
+        } else if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+            values[key] = element.value
+        } else {
+            values[key] = (element.textContent || '').trim()
+        }
+    }
+    return values
+}
@@ -0,0 +1,189 @@
+import { Request } from "puppeteer";
+import { UrlPattern, urlMatches } from "./activity-monitor";
+import { PageDriver } from "./driver";
+import { RouteHandler } from "./request-router";
+import fs from 'fs'
+
+type HarHeader = {name:string, value:string}
+
+/**
+ * Subset of the HAR 1.2 format recorded and replayed by the navigator
+ */
+export interface HarEntry {
+    startedDateTime: string
+    /** milliseconds */
+    time: number
+    request: {
+        method: string
+        url: string
+        httpVersion: string
+        headers: HarHeader[]
+        queryString: HarHeader[]
+        postData?: {mimeType:string, text:string}
+        headersSize: number
+        bodySize: number
+    }
+    response: {
+        status: number
+        statusText: string
+        httpVersion: string
+        headers: HarHeader[]
+        content: {size:number, mimeType:string, text?:string, encoding?:string}
+        redirectURL: string
+        headersSize: number
+        bodySize: number
+    }
+    cache: {}
+    timings: {send:number, wait:number, receive:number}
+}
+
+export interface Har {
+    log: {
+        version: string
+        creator: {name:string, version:string}
+        pages: any[]
+        entries: HarEntry[]
+    }
+}
+
+export interface HarRecording {
+    /**
+     * Stops recording and writes the HAR file
+     */
+    stop() : Promise<Har>
+}
+
+export interface HarReplayOptions {
+    /** what to do with requests not found in the HAR. default 'abort' so the network is never used */
+    notFound?: 'abort' | 'continue'
+}
+
+function toHarHeaders(headers:{[name:string]: string}) : HarHeader[] {
+    return Object.keys(headers).map(name => ({name, value: headers[name]}))
+}
+
+function fromHarHeaders(headers:HarHeader[]) {
+    const result:{[name:string]: string} = {}
+    for (const header of headers) {
+        // content length and encoding describe the original transfer, not the body being replayed
+        if (['content-length', 'content-encoding', 'transfer-encoding'].includes(header.name.toLowerCase())) continue
+        result[header.name] = result[header.name] ? result[header.name] + '\n' + header.value : header.value
+    }
+    return result
+}
+
+/**
+ * Records all completed requests of the page until stopped
+ * @param filePath HAR file written when the recording is stopped
+ * @param include only record requests matching one of these url patterns. default all
+ */
+export function recordHar(driver:PageDriver, filePath:string, include?:UrlPattern[]) : HarRecording {
+    const entries:HarEntry[] = []
+    const startTimes = new Map<Request, number>()
+    // entries are built asynchronously since reading response bodies is asynchronous
+    const pendingEntries:Promise<void>[] = []
+
+    function onRequest(request:Request) {
+        startTimes.set(request, Date.now())
+    }
+    function onRequestFinished(request:Request) {
+        if (include && !include.some(pattern => urlMatches(request.url(), pattern))) return
+        pendingEntries.push(addEntry(request))
+    }
+
+    async function addEntry(request:Request) {
+        const response = request.response()
+        if (!response) return
+        const startTime = startTimes.get(request) || Date.now()
+        startTimes.delete(request)
+
+        let body:Buffer | undefined
+        try {
+            body = await response.buffer()
+        } catch (error) {} // redirect responses have no body
+
+        const url = new URL(request.url())
+        const responseHeaders = response.headers()
+        const postData = request.postData()
+        entries.push({
+            startedDateTime: new Date(startTime).toISOString(),
+            time: Date.now() - startTime,
+            request: {
+                method: request.method(),
+                url: request.url(),
+                httpVersion: 'HTTP/1.1',
+                headers: toHarHeaders(request.headers()),
+                queryString: Array.from(url.searchParams.entries()).map(([name, value]) => ({name, value})),
+                postData: postData ? {mimeType: request.headers()['content-type'] || '', text: postData} : undefined,
+                headersSize: -1,
+                bodySize: postData ? postData.length : 0
+            },
+            response: {
+                status: response.status(),
+                statusText: response.statusText(),
+                httpVersion: 'HTTP/1.1',
+                headers: toHarHeaders(responseHeaders),
+                content: {
+                    size: body ? body.length : 0,
+                    mimeType: responseHeaders['content-type'] || '',
+                    text: body ? body.toString('base64') : undefined,
+                    encoding: body ? 'base64' : undefined
+                },
+                redirectURL: responseHeaders['location'] || '',
+                headersSize: -1,
+                bodySize: body ? body.length : -1
+            },
+            cache: {},
+            timings: {send: 0, wait: Date.now() - startTime, receive: 0}
+        })
+    }
+
+    driver.on('request', onRequest)
+    driver.on('requestfinished', onRequestFinished)
+
+    return {
+        stop: async function () {
+            driver.off('request', onRequest)
+            driver.off('requestfinished', onRequestFinished)
+            await Promise.all(pendingEntries)
+
+            entries.sort((first, second) => first.startedDateTime.localeCompare(second.startedDateTime))
+            const har:Har = {log: {version: '1.2', creator: {name: 'puppeteer-navigator', version: '1'}, pages: [], entries}}
+            await fs.promises.writeFile(filePath, JSON.stringify(har, null, 2))
+            return har
+        }
+    }
+}
+
+/**
+ * Creates a route handler serving responses from a HAR file.
+ * Requests are matched by method, url and post data.  Repeated requests are served the recorded responses in order.
+ */
+export async function makeHarReplayHandler(filePath:string, replayOptions:HarReplayOptions = {}) : Promise<RouteHandler> {
+    const har:Har = JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+    const requestKey = (method:string, url:string, postData?:string) => `${method} ${url} ${postData || ''}`
+
+    const entriesByRequest = new Map<string, HarEntry[]>()
+    for (const entry of har.log.entries) {
+        const key = requestKey(entry.request.method, entry.request.url, entry.request.postData && entry.request.postData.text)
+        entriesByRequest.set(key, (entriesByRequest.get(key) || []).concat(entry))
+    }
+
+    return async route => {
+        const request = route.request
+        const entries = entriesByRequest.get(requestKey(request.method(), request.url(), request.postData()))
+        if (!entries) {
+            if (replayOptions.notFound === 'continue') return await route.continue()
+            return await route.abort('internetdisconnected')
+        }
+
+        // keep serving the last response once all recorded responses have been used
+        const entry = entries.length > 1 ? entries.shift()! : entries[0]
+        const content = entry.response.content
+        await route.fulfill({
+            status: entry.response.status,
+            headers: fromHarHeaders(entry.response.headers),
+            body: content.text === undefined ? '' : Buffer.from(content.text, content.encoding === 'base64' ? 'base64' : 'utf8')
+        })
+    }
+}
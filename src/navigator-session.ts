@@ -0,0 +1,104 @@
+import { Browser, Page } from "puppeteer";
+import { makePageNavigator, Navigator, NavigatorOptions } from "./navigator";
+import { NavigatorError } from "./errors";
+
+/**
+ * Tracks the navigators of all pages opened during a session, including popups opened with clickAndWaitForPopup
+ */
+export interface NavigatorSession {
+    /** all open navigators in the order they were opened */
+    navigators() : Navigator[]
+    /** navigator most recently opened or switched to */
+    current() : Navigator | undefined
+
+    /**
+     * Opens a new page and returns its navigator
+     * @param customOptions options added to the session options for this navigator
+     */
+    newNavigator(customOptions?:NavigatorOptions) : Promise<Navigator>
+
+    /**
+     * Tracks a navigator created outside of the session
+     */
+    add(navigator:Navigator) : Navigator
+
+    /**
+     * Makes a navigator current and brings its page to the front
+     * @param target index, text contained in the page url or predicate
+     */
+    switchTo(target:number | string | ((navigator:Navigator) => boolean)) : Promise<Navigator>
+
+    /**
+     * Closes the navigator's page and stops monitoring it.  Closes the current navigator if none is given
+     */
+    close(navigator?:Navigator) : Promise<void>
+
+    /**
+     * Closes all navigators
+     */
+    closeAll() : Promise<void>
+}
+
+// sessions by page so navigators can add the popups they open to their session
+const pageSessions = new WeakMap<Page, NavigatorSession>()
+
+export function sessionForPage(page:Page) : NavigatorSession | undefined {
+    return pageSessions.get(page)
+}
+
+/**
+ * Creates a session for the browser.
+ * @param customOptions options for navigators opened by the session
+ */
+export function makeNavigatorSession(browser:Browser, customOptions:NavigatorOptions = {}) : NavigatorSession {
+    let openNavigators:Navigator[] = []
+    let currentNavigator:Navigator | undefined
+
+    function remove(navigator:Navigator) {
+        openNavigators = openNavigators.filter(openNavigator => openNavigator !== navigator)
+        pageSessions.delete(navigator.page())
+        if (currentNavigator === navigator) currentNavigator = openNavigators[openNavigators.length - 1]
+    }
+
+    const session:NavigatorSession = {
+        navigators: () => openNavigators.slice(),
+        current: () => currentNavigator,
+
+        newNavigator: async function (navigatorOptions:NavigatorOptions = {}) {
+            const page = await browser.newPage()
+            return this.add(makePageNavigator(page, {...customOptions, ...navigatorOptions}))
+        },
+
+        add: function (navigator:Navigator) {
+            if (openNavigators.includes(navigator)) return navigator
+            openNavigators.push(navigator)
+            currentNavigator = navigator
+            pageSessions.set(navigator.page(), session)
+            navigator.page().once('close', () => remove(navigator))
+            return navigator
+        },
+
+        switchTo: async function (target:number | string | ((navigator:Navigator) => boolean)) {
+            let navigator:Navigator | undefined
+            if (typeof target === 'number') navigator = openNavigators[target]
+            else if (typeof target === 'string') navigator = openNavigators.find(navigator => navigator.page().url().includes(target))
+            else navigator = openNavigators.find(target)
+            if (!navigator) throw new NavigatorError('notFound', 'Navigator not found in session ' + target, {action: 'switchTo'})
+
+            await navigator.page().bringToFront()
+            currentNavigator = navigator
+            return navigator
+        },
+
+        close: async function (navigator:Navigator | undefined = currentNavigator) {
+            if (!navigator) return
+            remove(navigator)
+            await navigator.close()
+        },
+
+        closeAll: async function () {
+            for (const navigator of openNavigators.slice().reverse()) await this.close(navigator)
+        }
+    }
+    return session
+}
@@ -0,0 +1,659 @@
+import assert from 'assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Browser, Dialog, Frame, Request } from "puppeteer"
+import { ExpectationError, FakeDriver, FakeElement, Navigator, NavigatorError, SoftExpectationsError, browserStateVersion, makeDriverNavigator, makeFakeDriver, makeNavigatorSession, makeTraceRecorder, runFlow, serializeFunction, urlCondition, validateFlow } from "./puppeteer-navigator"
+
+/**
+ * Tests of the navigator's own logic using the fake driver, so they run without a browser.
+ * Run with 'npm test'.  test.ts is a manual demo which needs a browser
+ */
+
+const tests:{name:string, testFn:() => Promise<void>}[] = []
+
+function test(name:string, testFn:() => Promise<void>) {
+    tests.push({name, testFn})
+}
+
+/**
+ * Rejects with the NavigatorError thrown by the action, failing if the action succeeds or throws any other error
+ */
+async function navigatorError(action:Promise<unknown>) : Promise<NavigatorError> {
+    try {
+        await action
+    } catch (error) {
+        assert.ok(error instanceof NavigatorError, 'expected a NavigatorError but got ' + error)
+        return error
+    }
+    throw new assert.AssertionError({message: 'expected the action to fail'})
+}
+
+function timeoutError(message:string) {
+    const error = new Error(message)
+    error.name = 'TimeoutError'
+    return error
+}
+
+/**
+ * Request which records how it was resolved by request interception
+ */
+function fakeRequest(frame:Frame, url:string, resourceType = 'xhr') : Request & {resolution?:{method:string, args:any[]}} {
+    const request:any = {
+        url: () => url,
+        method: () => 'GET',
+        headers: () => ({}),
+        postData: () => undefined,
+        resourceType: () => resourceType,
+        frame: () => frame,
+        response: () => null
+    }
+    for (const method of ['continue', 'respond', 'abort']) {
+        request[method] = async (...args:any[]) => {request.resolution = {method, args}}
+    }
+    return request
+}
+
+/**
+ * Fake page of a list which renders the items in view at each scroll position.  Items are rendered again on each read
+ */
+function fakeScrollingList(driver:FakeDriver, itemsByScroll:string[][]) {
+    const list = {scrolls: 0, reads: 0}
+    driver.mainFrame().script('evaluate', async (pageFunction:any, ...args:any[]) : Promise<any> => {
+        // queryElements of the items, otherwise the scroll
+        if (args[0] === '.item') return itemsByScroll[Math.min(list.scrolls, itemsByScroll.length - 1)].map(id => ({id, read: ++list.reads}))
+        list.scrolls++
+    })
+    return list
+}
+
+function delay(milliseconds:number) {
+    return new Promise(resolve => setTimeout(resolve, milliseconds))
+}
+
+/**
+ * Scripts queries of the selector to find one element with the text returned by textFn
+ */
+function fakeText(driver:FakeDriver, selector:string, textFn:() => string) {
+    driver.mainFrame().script('evaluate', async (pageFunction:any, ...args:any[]) => {
+        if (args[0] === selector) return [{text: textFn(), visible: true, attributes: {}}]
+        return pageFunction(...args)
+    })
+}
+
+function fakeDialog(message:string) : Dialog {
+    return {type: () => 'alert', message: () => message, defaultValue: () => '', accept: async () => {}, dismiss: async () => {}} as any
+}
+
+test('performs actions through the driver', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#save')
+    const navigator = makeDriverNavigator(driver)
+
+    await navigator.click('#save')
+    assert.deepEqual(driver.calls.map(call => call.method), ['waitForSelector', 'query', 'evaluate', 'element.click'])
+})
+
+test('restores state and routes requests through the driver', async () => {
+    const statePath = path.join(os.tmpdir(), `navigator-test-state-${process.pid}.json`)
+    await fs.promises.writeFile(statePath, JSON.stringify({
+        version: browserStateVersion,
+        cookies: [{name: 'session', value: '1', domain: 'example.com', path: '/', expires: -1, size: 8, httpOnly: false, secure: false, session: true}],
+        origins: []
+    }))
+    try {
+        const driver = makeFakeDriver({url: 'https://example.com'})
+        const navigator = makeDriverNavigator(driver)
+        await navigator.restoreState(statePath)
+        await navigator.route('/api', route => route.fulfill({body: '{}'}))
+
+        const setCookies = driver.calls.find(call => call.method === 'setCookies')
+        assert.equal(setCookies && setCookies.args[0][0].name, 'session')
+        assert.ok(driver.calls.some(call => call.method === 'setRequestInterception' && call.args[0] === true))
+    } finally {
+        await fs.promises.unlink(statePath)
+    }
+})
+
+test('reports the failed step of a flow', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#start')
+    driver.mainFrame().addFrame('#editor', 'https://example.com/editor')
+    const navigator = makeDriverNavigator(driver)
+
+    const result = await runFlow(navigator, [
+        {click: '#start'},
+        {frame: ['#editor', [{click: '#missing'}]]},
+        {click: '#start'}
+    ])
+    assert.equal(result.success, false)
+    assert.deepEqual(result.steps.map(step => [step.path, step.outcome]), [['1', 'success'], ['2', 'error'], ['2.1', 'error']])
+    assert.equal(result.failedStep && result.failedStep.path, '2.1')
+    assert.equal(result.steps[1].error, result.failedStep && result.failedStep.error)
+})
+
+test('substitutes variables and rejects invalid flows', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#name')
+    const navigator = makeDriverNavigator(driver)
+
+    const result = await runFlow(navigator, [{type: ['#name', '${user}']}], {variables: {user: 'ada'}})
+    assert.equal(result.success, true)
+    assert.deepEqual(result.steps[0].args, ['#name', 'ada'])
+    assert.deepEqual(validateFlow([{type: ['#name', '${missing}']}, {hover: '#name'}]), ["step 1: undefined variable 'missing'", "step 2: unknown action 'hover'"])
+    await assert.rejects(runFlow(navigator, [{click: 1} as any]), /Invalid flow/)
+})
+
+test('fails goto with the error of a navigation which did not load', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().script('goto', async () => {throw new Error('net::ERR_INTERNET_DISCONNECTED at https://example.com/offline')})
+    const navigator = makeDriverNavigator(driver)
+
+    const error = await navigatorError(navigator.goto('https://example.com/offline'))
+    assert.equal(error.kind, 'navigationFailed')
+    assert.equal(error.action, 'goto')
+    assert.equal(error.cause && error.cause.message, 'net::ERR_INTERNET_DISCONNECTED at https://example.com/offline')
+})
+
+test('goto waits for the navigation', async () => {
+    const driver = makeFakeDriver({url: 'about:blank'})
+    const navigator = makeDriverNavigator(driver)
+
+    await navigator.goto('https://example.com/home')
+    assert.equal(driver.url(), 'https://example.com/home')
+})
+
+test('retries an action with backoff until it succeeds', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const button = driver.mainFrame().addElement('#save')
+    let attempts = 0
+    driver.mainFrame().script('waitForSelector', async () => {
+        if (++attempts < 3) throw timeoutError('Waiting for selector #save failed')
+        return button
+    })
+    const navigator = makeDriverNavigator(driver, {retry: {attempts: 3, backoff: attempt => attempt * 50}})
+
+    const startTime = Date.now()
+    await navigator.click('#save')
+    assert.equal(attempts, 3)
+    assert.ok(Date.now() - startTime >= 150, 'waits 50ms then 100ms between attempts')
+    assert.deepEqual(driver.calls.filter(call => call.method === 'element.click').map(call => call.args), [['#save']])
+})
+
+test('does not retry error kinds missing from retryOn', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const navigator = makeDriverNavigator(driver, {retry: {attempts: 3, backoff: 0, retryOn: ['detached']}})
+
+    const error = await navigatorError(navigator.click('#missing'))
+    assert.equal(error.kind, 'notFound')
+    assert.equal(driver.calls.filter(call => call.method === 'waitForSelector').length, 1)
+})
+
+test('reports the kind and details of failed actions', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#hidden', {visible: false})
+    const navigator = makeDriverNavigator(driver)
+
+    const notFound = await navigatorError(navigator.click('#missing'))
+    assert.equal(notFound.kind, 'notFound')
+    assert.equal(notFound.action, 'click')
+    assert.equal(notFound.selector, '#missing')
+    assert.equal(notFound.frameUrl, 'https://example.com')
+    assert.ok(notFound.elapsedTime !== undefined)
+
+    assert.equal((await navigatorError(navigator.click('#hidden'))).kind, 'notVisible')
+    assert.equal((await navigatorError(navigator.waitForUrl('/never', {timeout: 50}))).kind, 'timeout')
+})
+
+test('waits for tracked network activity to finish', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const navigator = makeDriverNavigator(driver)
+    const request = fakeRequest(driver.mainFrame().frame, 'https://example.com/api')
+    driver.emit('request', request)
+    setTimeout(() => driver.emit('requestfinished', request), 50)
+
+    const startTime = Date.now()
+    await navigator.waitActivity(20, 0)
+    assert.ok(Date.now() - startTime >= 60, 'waits for the request and then the idle time')
+    assert.deepEqual(navigator.pendingRequests(), [])
+})
+
+test('ignores network activity excluded by the activity filter', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const navigator = makeDriverNavigator(driver, {activityFilter: {exclude: ['/poll']}})
+    const unfiltered = makeDriverNavigator(driver)
+    driver.emit('request', fakeRequest(driver.mainFrame().frame, 'https://example.com/poll'))
+    driver.emit('request', fakeRequest(driver.mainFrame().frame, 'wss://example.com/live', 'websocket'))
+
+    const startTime = Date.now()
+    await navigator.waitActivity(0, 0)
+    assert.ok(Date.now() - startTime < 1000)
+    assert.deepEqual(navigator.pendingRequests(), [])
+    assert.deepEqual(unfiltered.pendingRequests().map(request => [request.url, request.method, request.frameUrl]), [['https://example.com/poll', 'GET', 'https://example.com']])
+})
+
+test('frame navigators only track requests of their frame', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const childFrame = driver.mainFrame().addFrame('#editor', 'https://example.com/editor')
+    const navigator = makeDriverNavigator(driver)
+    const frameNavigator = await navigator.frameNavigator('#editor')
+
+    driver.emit('request', fakeRequest(driver.mainFrame().frame, 'https://example.com/page'))
+    assert.deepEqual(frameNavigator.pendingRequests(), [])
+    driver.emit('request', fakeRequest(childFrame.frame, 'https://example.com/editor/save'))
+    assert.deepEqual(frameNavigator.pendingRequests().map(request => request.frameUrl), ['https://example.com/editor'])
+    assert.equal(navigator.pendingRequests().length, 2)
+})
+
+test('fails waitActivity on the activity timeout with activityTimeoutError', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const navigator = makeDriverNavigator(driver, {activityTimeout: 50})
+    const strictNavigator = makeDriverNavigator(driver, {activityTimeout: 50, activityTimeoutError: true})
+    driver.emit('request', fakeRequest(driver.mainFrame().frame, 'https://example.com/slow'))
+
+    await navigator.waitActivity(0, 0)
+    const error = await navigatorError(strictNavigator.waitActivity(0, 0))
+    assert.equal(error.kind, 'timeout')
+    assert.equal(error.action, 'waitActivity')
+    assert.ok(error.message.includes('https://example.com/slow'))
+})
+
+async function removeDirectory(directory:string) {
+    for (const file of await fs.promises.readdir(directory)) await fs.promises.unlink(path.join(directory, file))
+    await fs.promises.rmdir(directory)
+}
+
+test('waits for a download to be saved', async () => {
+    const downloadPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'navigator-test-downloads-'))
+    try {
+        const driver = makeFakeDriver({url: 'https://example.com'})
+        const navigator = makeDriverNavigator(driver, {downloadPath})
+        const download = await navigator.download(async () => {
+            driver.emitProtocolEvent('Page.downloadWillBegin', {url: 'https://example.com/report.csv', suggestedFilename: 'report.csv'})
+            await fs.promises.writeFile(path.join(downloadPath, 'report.csv'), 'a,b\n')
+        })
+        assert.equal(download.path, path.join(downloadPath, 'report.csv'))
+        assert.equal(download.size, 4)
+        assert.equal(download.mimeType, 'text/csv')
+        assert.equal(download.url, 'https://example.com/report.csv')
+        assert.ok(driver.calls.some(call => call.method === 'send' && call.args[0] === 'Page.setDownloadBehavior' && call.args[1].downloadPath === downloadPath))
+        assert.deepEqual(navigator.downloads(), [download])
+    } finally {
+        await removeDirectory(downloadPath)
+    }
+})
+
+test('fails a download which is not saved within the download timeout', async () => {
+    const downloadPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'navigator-test-downloads-'))
+    try {
+        const driver = makeFakeDriver({url: 'https://example.com'})
+        const navigator = makeDriverNavigator(driver, {downloadPath, downloadTimeout: 200})
+        const error = await navigatorError(navigator.download(async () => {}))
+        assert.equal(error.kind, 'timeout')
+        assert.equal(error.action, 'download')
+        assert.deepEqual(navigator.downloads(), [])
+    } finally {
+        await removeDirectory(downloadPath)
+    }
+})
+
+test('collects the rows of each page of a table', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#grid')
+    const nextButton = driver.mainFrame().addElement('#next', {properties: {disabled: false}}) as unknown as FakeElement
+    let pageNumber = 1
+    // page functions reading the table and the next page button use the document
+    driver.mainFrame().script('evaluate', async (pageFunction:any, ...args:any[]) => {
+        if (pageFunction.name === 'readTable') return {headers: ['Name'], rows: [['row' + pageNumber]], rowElements: []}
+        if (args[0] === '#next') return [!nextButton.disabled]
+        return pageFunction(...args)
+    })
+    // each page loads some time after the click
+    driver.mainFrame().script('click', async () => {
+        setTimeout(() => {
+            pageNumber++
+            nextButton.disabled = pageNumber === 3
+        }, 50)
+    })
+    const navigator = makeDriverNavigator(driver, {useSimulatedClicks: false})
+
+    const rows = await navigator.extractTable('#grid', {nextPage: '#next'})
+    assert.deepEqual(rows, [{Name: 'row1'}, {Name: 'row2'}, {Name: 'row3'}])
+})
+
+test('stops collecting pages when the rows do not change within the page timeout', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#grid')
+    driver.mainFrame().addElement('#next')
+    driver.mainFrame().script('evaluate', async (pageFunction:any, ...args:any[]) => {
+        if (pageFunction.name === 'readTable') return {headers: ['Name'], rows: [['only']], rowElements: []}
+        if (args[0] === '#next') return [true]
+        return pageFunction(...args)
+    })
+    const navigator = makeDriverNavigator(driver)
+
+    const startTime = Date.now()
+    assert.deepEqual(await navigator.extractTable('#grid', {nextPage: '#next', pageTimeout: 200}), [{Name: 'only'}])
+    assert.ok(Date.now() - startTime >= 200)
+})
+
+test('resolves selector chains through frames', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const childFrame = driver.mainFrame().addFrame('#editor', 'https://example.com/editor')
+    childFrame.addElement('#save')
+    const navigator = makeDriverNavigator(driver)
+
+    await navigator.click('#editor >>> #save')
+    const click = driver.calls.find(call => call.method === 'element.click')
+    assert.equal(click && click.frameUrl, 'https://example.com/editor')
+})
+
+test('queries of a selector chain with a missing segment find nothing', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const navigator = makeDriverNavigator(driver)
+
+    assert.equal(await navigator.queryElement('#missing >>> #save', element => element.selector), null)
+    assert.deepEqual(await navigator.queryElements('#missing >>> #save', element => element.selector), [])
+    assert.equal((await navigatorError(navigator.click('#missing >>> #save'))).kind, 'notFound')
+})
+
+test('fails element actions of a navigator whose root is detached', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const form = driver.mainFrame().addElement('#form') as unknown as FakeElement
+    const navigator = makeDriverNavigator(driver)
+    const formNavigator = await navigator.within('#form')
+
+    form.isConnected = false
+    const error = await navigatorError(formNavigator.click('#save'))
+    assert.equal(error.kind, 'detached')
+    assert.equal(error.action, 'click')
+
+    // page actions still work
+    await formNavigator.close()
+    assert.ok(driver.isClosed())
+})
+
+test('collects items by key until scrolling finds no new items', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const list = fakeScrollingList(driver, [['a', 'b'], ['b', 'c'], ['c', 'd']])
+    const navigator = makeDriverNavigator(driver)
+
+    const items = await navigator.scrollAndCollect(null, '.item', element => element.id, {key: item => item.id, scrollDelay: 0})
+    assert.deepEqual(items.map(item => item.id), ['a', 'b', 'c', 'd'])
+    // stops after two scrolls without new items
+    assert.equal(list.scrolls, 4)
+})
+
+test('stops collecting items at maxItems or when until is met', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const list = fakeScrollingList(driver, [['a', 'b'], ['b', 'c'], ['c', 'd']])
+    const navigator = makeDriverNavigator(driver)
+
+    const firstItems = await navigator.scrollAndCollect(null, '.item', element => element.id, {key: item => item.id, maxItems: 3, scrollDelay: 0})
+    assert.deepEqual(firstItems.map(item => item.id), ['a', 'b', 'c'])
+
+    list.scrolls = 0
+    const untilItems = await navigator.scrollAndCollect(null, '.item', element => element.id, {key: item => item.id, until: items => items.some(item => item.id === 'b'), scrollDelay: 0})
+    assert.deepEqual(untilItems.map(item => item.id), ['a', 'b'])
+    assert.equal(list.scrolls, 0)
+})
+
+test('fulfills routed requests', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const navigator = makeDriverNavigator(driver)
+    await navigator.route('/api', route => route.fulfill({json: {ok: true}}))
+
+    const request = fakeRequest(driver.mainFrame().frame, 'https://example.com/api')
+    const other = fakeRequest(driver.mainFrame().frame, 'https://example.com/page')
+    driver.emit('request', request)
+    driver.emit('request', other)
+    await delay(10)
+    assert.deepEqual(request.resolution, {method: 'respond', args: [{status: 200, headers: undefined, contentType: 'application/json', body: '{"ok":true}'}]})
+    assert.equal(other.resolution && other.resolution.method, 'continue')
+})
+
+test('fails the next action when a route handler throws', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#save')
+    const navigator = makeDriverNavigator(driver)
+    await navigator.route('/api', () => {throw new Error('missing fixture')})
+
+    const request = fakeRequest(driver.mainFrame().frame, 'https://example.com/api')
+    driver.emit('request', request)
+    await delay(10)
+    assert.equal(request.resolution && request.resolution.method, 'abort')
+    const error = await navigatorError(navigator.click('#save'))
+    assert.equal(error.kind, 'routeFailed')
+    assert.equal(error.cause && error.cause.message, 'missing fixture')
+    await navigator.click('#save')
+})
+
+test('aborts a request fulfilled with a missing fixture file', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#save')
+    const navigator = makeDriverNavigator(driver)
+    await navigator.route('/api', route => route.fulfill({path: path.join(os.tmpdir(), 'navigator-test-missing-fixture.json')}))
+
+    const request = fakeRequest(driver.mainFrame().frame, 'https://example.com/api')
+    driver.emit('request', request)
+    await delay(10)
+    assert.deepEqual(request.resolution, {method: 'abort', args: ['failed']})
+    assert.equal((await navigatorError(navigator.click('#save'))).kind, 'routeFailed')
+})
+
+test('adds the navigator of a popup to the session of its opener', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#report')
+    driver.mainFrame().script('evaluate', async (pageFunction:any, ...args:any[]) => {
+        const popup = driver.openPopup()
+        setTimeout(() => popup.mainFrame().goto('https://example.com/report'), 20)
+        return pageFunction(...args)
+    })
+    const session = makeNavigatorSession({} as Browser)
+    const navigator = session.add(makeDriverNavigator(driver))
+
+    const popupNavigator = await navigator.clickAndWaitForPopup('#report')
+    assert.equal(popupNavigator.page().url(), 'https://example.com/report')
+    assert.deepEqual(session.navigators(), [navigator, popupNavigator])
+    assert.equal(session.current(), popupNavigator)
+
+    assert.equal(await session.switchTo('example.com/report'), popupNavigator)
+    assert.equal(await session.switchTo(0), navigator)
+    assert.equal((await navigatorError(session.switchTo('missing'))).kind, 'notFound')
+
+    await session.close()
+    assert.ok(driver.isClosed())
+    assert.deepEqual(session.navigators(), [popupNavigator])
+    assert.equal(session.current(), popupNavigator)
+})
+
+test('adds navigator options to the session options', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const session = makeNavigatorSession({newPage: async () => driver.page} as Browser, {activityTimeout: 50, activityTimeoutError: true})
+    const navigator = await session.newNavigator({waitIdleTime: 0})
+    driver.emit('request', fakeRequest(driver.mainFrame().frame, 'https://example.com/slow'))
+
+    const error = await Promise.race([navigatorError(navigator.waitActivity(0, 0)), delay(1000).then(() => undefined)])
+    assert.equal(error && error.kind, 'timeout')
+})
+
+test('expectations wait until they are met', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    let status = 'Saving'
+    fakeText(driver, '#status', () => status)
+    const navigator = makeDriverNavigator(driver)
+
+    setTimeout(() => status = 'Saved', 50)
+    setTimeout(() => driver.mainFrame().goto('https://example.com/done'), 50)
+    await navigator.expect('#status').toHaveText('Saved')
+    await navigator.expect().toHaveUrl(/\/done$/)
+})
+
+test('failed expectations report the last actual value', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    fakeText(driver, '#status', () => 'Saving')
+    const navigator = makeDriverNavigator(driver)
+
+    try {
+        await navigator.expect('#status', {timeout: 200}).toHaveText('Saved')
+        assert.fail('expected the expectation to fail')
+    } catch (error) {
+        assert.ok(error instanceof ExpectationError)
+        assert.equal(error.matcher, 'toHaveText')
+        assert.equal(error.actual, 'Saving')
+        assert.equal(error.message, 'expect("#status").toHaveText("Saved") not met after 200ms. Last actual value: "Saving"')
+    }
+})
+
+test('soft expectations are collected until asserted', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    fakeText(driver, '#status', () => 'Saving')
+    const navigator = makeDriverNavigator(driver, {softExpect: true, expectTimeout: 100})
+
+    await navigator.expect('#status').toHaveText('Saved')
+    await navigator.expect().toHaveUrl('/done')
+    assert.deepEqual(navigator.expectationFailures().map(failure => failure.matcher), ['toHaveText', 'toHaveUrl'])
+    assert.throws(() => navigator.assertExpectations(), (error:any) => error instanceof SoftExpectationsError && error.failures.length === 2)
+    assert.deepEqual(navigator.expectationFailures(), [])
+    navigator.assertExpectations()
+})
+
+test('traces an expectation as one action while other navigators are traced', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#save')
+    fakeText(driver, '#status', () => 'Saving')
+    const trace = makeTraceRecorder()
+    const navigator = makeDriverNavigator(driver, {trace})
+    const otherNavigator = makeDriverNavigator(driver, {trace})
+
+    const expectation = navigator.expect('#status', {timeout: 300, soft: true}).toHaveText('Saved')
+    await otherNavigator.click('#save')
+    await expectation
+    const actions = trace.entries().map(entry => entry.action)
+    assert.equal(actions.filter(action => action === 'queryElements').length, 0)
+    assert.deepEqual(actions.filter(action => action === 'expect.toHaveText' || action === 'click'), ['expect.toHaveText', 'click'])
+})
+
+test('fails actions during which an unexpected dialog opened', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#delete')
+    driver.mainFrame().script('click', async () => driver.emit('dialog', fakeDialog('Delete?')))
+    const navigator = makeDriverNavigator(driver, {unexpectedDialogError: true, useSimulatedClicks: false})
+
+    const error = await navigatorError(navigator.click('#delete'))
+    assert.equal(error.kind, 'unexpectedDialog')
+    assert.equal(error.message, 'Unexpected alert dialog: Delete?')
+
+    await navigator.click('#delete', {expectDialog: 'accept'})
+    assert.deepEqual(navigator.dialogs().map(dialog => [dialog.response, dialog.expected]), [['dismiss', false], ['accept', true]])
+})
+
+test('fails actions during which a dialog policy threw', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#delete')
+    driver.mainFrame().script('click', async () => driver.emit('dialog', fakeDialog('Delete?')))
+    const navigator = makeDriverNavigator(driver, {useSimulatedClicks: false})
+
+    const error = await navigatorError(navigator.click('#delete', {expectDialog: () => {throw new Error('no answer')}}))
+    assert.equal(error.kind, 'unexpectedDialog')
+    assert.ok(error.message.includes('no answer'))
+    assert.equal(navigator.dialogs()[0].error, 'no answer')
+})
+
+test('captures trace screenshots and DOM snapshots through the driver', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#save')
+    driver.mainFrame().script('evaluate', async (pageFunction:any, ...args:any[]) =>
+        String(pageFunction).includes('outerHTML') ? '<html><body>saved</body></html>' : pageFunction(...args))
+    const trace = makeTraceRecorder({screenshots: true, snapshots: true})
+    const navigator = makeDriverNavigator(driver, {trace})
+
+    await navigator.click('#save')
+    const [entry] = trace.entries()
+    assert.equal(entry.action, 'click')
+    assert.equal(entry.frameUrl, 'https://example.com')
+    assert.equal(entry.screenshotBefore, '')
+    assert.equal(entry.screenshotAfter, '')
+    assert.equal(driver.calls.filter(call => call.method === 'screenshot').length, 2)
+    assert.equal(entry.domBefore, '<html><body>saved</body></html>')
+    assert.equal(entry.domAfter, '<html><body>saved</body></html>')
+})
+
+test('waits after an action in order', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#save')
+    let callsBeforeCondition = -1
+    const navigator = makeDriverNavigator(driver, {
+        waitAfterAction: 500,
+        waitAfterCondition: {description: 'recorded', wait: async () => { callsBeforeCondition = driver.calls.length }}
+    })
+
+    await navigator.click('#save')
+    const methods = driver.calls.map(call => call.method)
+    assert.ok(methods.indexOf('element.click') < methods.indexOf('waitForTimeout'))
+    assert.ok(methods.indexOf('waitForTimeout') < callsBeforeCondition)
+})
+
+test('waitAny stops waiting once a condition is met and is traced as one action', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    const trace = makeTraceRecorder()
+    const navigator = makeDriverNavigator(driver, {trace})
+    let isOtherWaitSettled = false
+    const settle = () => { isOtherWaitSettled = true }
+    const otherCondition = {description: 'url /never', wait: (conditionNavigator:Navigator) => conditionNavigator.waitForUrl('/never', {timeout: 5000}).then(settle, settle)}
+
+    const waiting = navigator.waitAny(urlCondition('/done'), otherCondition)
+    await driver.mainFrame().goto('https://example.com/done')
+    await waiting
+    await delay(50)
+    assert.ok(isOtherWaitSettled)
+    assert.deepEqual(trace.entries().map(entry => entry.action), ['waitAny'])
+})
+
+test('waitForHidden of a selector chain with a missing segment succeeds without waiting', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com', timeout: 5000})
+    const navigator = makeDriverNavigator(driver)
+
+    const startTime = Date.now()
+    await navigator.waitForHidden('#missing >>> #spinner')
+    assert.ok(Date.now() - startTime < 1000)
+    assert.equal(driver.calls.filter(call => call.method === 'waitForSelector').length, 0)
+})
+
+test('rejects callbacks which can not be sent to the page', async () => {
+    const matchers = { isSaved(element:any) { return element.selector === '#save' } }
+    assert.equal(serializeFunction((element:any) => element.selector, 'callback'), '(element) => element.selector')
+    assert.throws(() => serializeFunction(matchers.isSaved, 'callback'), /not a function expression/)
+    assert.throws(() => serializeFunction(matchers.isSaved.bind(matchers), 'callback'), /native or bound function/)
+    assert.throws(() => serializeFunction('element.selector' as any, 'callback'), /must be a function but was string/)
+})
+
+test('fails queries given a bound or method shorthand callback before reaching the page', async () => {
+    const driver = makeFakeDriver({url: 'https://example.com'})
+    driver.mainFrame().addElement('#save')
+    const navigator = makeDriverNavigator(driver)
+    const mappers = { selectorOf(element:Element) { return element.id } }
+
+    await assert.rejects(navigator.queryElements('#save', mappers.selectorOf.bind(mappers)), /queryElements callback can not be sent to the page since it is a native or bound function/)
+    await assert.rejects(navigator.queryElements('#save', mappers.selectorOf), /queryElements callback can not be sent to the page since its source is not a function expression/)
+    assert.equal(driver.calls.filter(call => call.method === 'evaluate').length, 0)
+})
+
+async function run() {
+    let failures = 0
+    for (const {name, testFn} of tests) {
+        try {
+            await testFn()
+            console.log('ok - ' + name)
+        } catch (error) {
+            failures++
+            console.log('not ok - ' + name)
+            console.log(error)
+        }
+    }
+    console.log(`${tests.length - failures} of ${tests.length} tests passed`)
+    // waits of failed tests may still be pending, so exit rather than wait for them
+    process.exit(failures ? 1 : 0)
+}
+
+run()
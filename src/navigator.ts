@@ -0,0 +1,1539 @@
+import { Page, Frame, Response, ClickOptions, PageFnOptions, JSHandle, ElementHandle, FrameBase } from "puppeteer";
+import { TraceRecorder } from "./trace";
+import { ExpectationError, NavigatorError, NavigatorErrorKind, RetryPolicy, SoftExpectationsError, defaultRetryPolicy, toNavigatorError } from "./errors";
+import { ActivityFilter, ActivityMonitor, ActivityWaitOptions, PendingRequest, UrlPattern, startActivityMonitor, urlMatches } from "./activity-monitor";
+import { DownloadInfo, DownloadManager, makeDownloadManager } from "./download-manager";
+import { FormValues, fillFormFields, findFormFields, formatLocalDate, readFormFields } from "./forms";
+import { TableData, TableOptions, TableRow, mapTableRow, readTable, rowMatches, scrollTable } from "./tables";
+import { RequestRouter, RouteHandler, makeRequestRouter } from "./request-router";
+import { HarRecording, HarReplayOptions, makeHarReplayHandler, recordHar } from "./har";
+import { sessionForPage } from "./navigator-session";
+import { ExpectOptions, Matchers, makeMatchers } from "./expect";
+import { DialogActionOptions, DialogInfo, DialogManager, DialogPolicy, makeDialogManager } from "./dialog-manager";
+import { BrowserState, SaveStateOptions, StateManager, makeStateManager } from "./browser-state";
+import { FrameDriver, PageDriver } from "./driver";
+import { makePuppeteerDriver } from "./puppeteer-driver";
+import { WaitConditionType, WaitOptions, waitForCondition } from "./wait-conditions";
+import { PageHelpers, callbackText, helperArguments, installHelpers } from "./page-functions";
+
+export type SelectorType = number|string|((...args:any)=>boolean)
+/**
+ * Callbacks run in the page.  They receive the element followed by any extra arguments passed to the query.
+ * Variables from the scope the callback is written in are not available in the page, so pass them as extra arguments
+ * or register them with registerHelpers.
+ */
+export type ElementMapFn = (element:ElementAny, ...args:any[])=>any
+export type ElementMatchFn = (element:ElementAny, ...args:any[])=>boolean
+
+/**
+ * Options generally applied to all actions
+ */
+export interface NavigatorOptions {
+    /** wait until element is visible on selection actions.  default true. */
+    waitUntilVisible?: boolean
+    /** wait until the selector is found before performing actions. default true*/
+    waitOnSelectors?: boolean,
+    /** wait milliseconds after all actions. default 0 */
+    waitAfterAction?: number
+    /** wait milliseconds after all network activity has stopped. default 0 */
+    waitIdleTime?:number
+    /** wait milliseconds after any page load. default 0 */
+    waitIdleLoadTime?:number
+    /** send click event directly to element vs using mouse cursor initiated click. default true */
+    useSimulatedClicks?:boolean
+    /** record all actions to this trace.  Shared with navigators created from this navigator. default none */
+    trace?:TraceRecorder
+    /** retry policy for click, type, select and frameNavigator. default 1 attempt */
+    retry?:RetryPolicy
+    /** attach a screenshot to errors thrown by actions. default false */
+    errorScreenshots?:boolean
+    /** selects which network requests waitActivity waits on. default all except eventsource and websocket */
+    activityFilter?:ActivityFilter
+    /** maximum milliseconds waitActivity waits for network activity to complete. default 30000 */
+    activityTimeout?:number
+    /** throw a timeout error when waitActivity reaches activityTimeout instead of continuing. default false */
+    activityTimeoutError?:boolean
+    /** directory downloads are saved to. default a temporary directory unique to each navigator created with makePageNavigator */
+    downloadPath?:string
+    /** maximum milliseconds to wait for a download to complete. default 30000 */
+    downloadTimeout?:number
+    /** maximum milliseconds clickAndWaitForPopup waits for a popup to open. default 30000 */
+    popupTimeout?:number
+    /** milliseconds expectations retry before failing. default 5000 */
+    expectTimeout?:number
+    /** record expectation failures to be reported by assertExpectations instead of throwing. default false */
+    softExpect?:boolean
+    /** how alert, confirm, prompt and beforeunload dialogs are answered.  default dismiss, except beforeunload which is accepted */
+    dialogs?:DialogPolicy
+    /** fail actions with an unexpectedDialog error when a dialog opens which the action did not expect. default false */
+    unexpectedDialogError?:boolean
+    /** state file saved with saveState to restore when the navigator is created with makePageNavigator.  goto waits for the restore to complete */
+    restoreState?:string
+    /** maximum milliseconds waitForText, waitForUrl, waitForDomStable and waitForHidden wait. default 30000 */
+    waitTimeout?:number
+    /** condition waited on after all actions, after waitIdleTime and waitAfterAction.  See the wait condition functions such as domStableCondition. default none */
+    waitAfterCondition?:WaitConditionType
+}
+
+/**
+ * Selectors may be chained to reach elements within frames and shadow roots.
+ * ' >>> ' continues the selector within the frame of an iframe or the shadow root of a shadow host.
+ * '::shadow ' continues the selector within the shadow root of the element.
+ * Each segment of the chain may be a css selector or xpath.
+ * 
+ * `iframe#outer >>> iframe.inner >>> my-widget::shadow button.save`
+ */
+const selectorChainPattern = /(\s*>>>\s*|::shadow\s+)/
+
+export function isSelectorChain(selector:any) : selector is string {
+    return typeof selector === 'string' && selectorChainPattern.test(selector)
+}
+
+export interface ScrollCollectOptions {
+    /** stop when the predicate returns true for the items collected so far */
+    until?: (items:any[]) => boolean
+    /** stop after collecting this many items */
+    maxItems?: number
+    /** identifies duplicate items.  Virtualized lists render the same item more than once. default compares the whole item */
+    key?: (item:any) => string
+    /** pixels to scroll each step. default the height of the container */
+    scrollStep?: number
+    /** milliseconds to wait after each scroll in addition to waiting for network activity. default 250 */
+    scrollDelay?: number
+    /** stop after this many consecutive scrolls find no new items. default 2 */
+    maxEmptyScrolls?: number
+    /** maximum number of scrolls. default 1000 */
+    maxScrolls?: number
+}
+
+export interface ElementAny extends Element {
+    [key:string]: any
+}
+export interface Navigator {
+    page(): Page
+
+    /**
+     * Current frame for navigator
+     */
+    frame(): Frame
+    updateOptions(customOptions:NavigatorOptions) : void
+    /**
+     * Navigate to URL
+     * @param url 
+     * @param waitCondition 
+     */
+    goto(url:string, waitCondition?:SelectorType, gotoOptions?:DialogActionOptions) : Promise<Response>
+    
+    /**
+     * Queries an element using css selector or xpath
+     * Assumes xpath expression starts with '//'
+     * @param selector css selector or xpath
+     */
+    queryElementHandle(selector: string | ElementHandle) : Promise<ElementHandle | null>
+
+    /**
+     * Queries an element using css selector or xpath
+     * Assumes xpath expression starts with '//'
+     * @param selector css selector or xpath
+     */
+    queryElementHandles(selector: string | ElementHandle) : Promise<ElementHandle[]>
+
+    /**
+     * Uses the selector function to find a matching element
+     * If a context is passed, then the matching element must be a descendant of the context element
+     * @param args serializable values passed to selectorFn after the element
+     */
+    queryElementHandleWithFn(selectorFn: ElementMatchFn, context: ElementHandle, ...args:any[]) : Promise<Node | null>
+
+    /**
+     * Query element using selector and uses the provided function to map a return value
+     * @param selector css selector
+     * @param valueMapFn function to map element to return value
+     * @param args serializable values passed to valueMapFn after the element
+     */
+    queryElement(selector:string, valueMapFn:ElementMapFn, ...args:any[]) : Promise<any> 
+
+    /**
+     * Queries elements using selector and uses the provided function to map a list of return values
+     * @param selector css selector
+     * @param valueMapFn function to map elements to values to be returned
+     * @param args serializable values passed to valueMapFn after the element
+     */
+    queryElements(selector:string, valueMapFn:ElementMapFn, ...args:any[]): Promise<any[]> 
+    
+    /**
+     * Queries chlldren with all descendants for a match using the descendantFn.
+     * Retuns all children who matched or had a descendant match.
+     * 
+     * This API is used to assist identifying rows in tables, lists, grids etc where we 
+     * want to find a row containing some criteria we can test for with a function
+     * 
+     * @param selector css selector
+     * @param valueMapFn function to map elements to values to be returned
+     * @param args serializable values passed to descendantFn after the element
+     */
+    queryChildrenAsHandles(parentSelector:string, descendantFn: (element:Element, ...args:any[]) => boolean, ...args:any[]) : Promise<ElementHandle<Element>[]>
+
+    /**
+     * Registers named functions which are in scope for every callback run in the page, such as the valueMapFn of queryElements.
+     * Helpers are installed in every frame of the page and again after each navigation.
+     * Like callbacks, helpers can not use variables from the scope they are written in.
+     * @param helpers functions by name
+     */
+    registerHelpers(helpers:PageHelpers) : Promise<void>
+
+
+    /**
+     * Extracts the rows of a table as objects keyed by column header text.
+     * Supports `<table>`, ARIA grids and div based grids, cells spanning rows and columns,
+     * and collecting rows across pages or virtual scrolling.
+     * 
+     * @param selector css selector or xpath of the table
+     * @param tableOptions column names, column mappers, paging and scrolling
+     */
+    extractTable(selector:string, tableOptions?:TableOptions) : Promise<TableRow[]>
+
+    /**
+     * Finds the first row of a table matching the criteria and returns a navigator scoped to the row
+     * so actions such as clicking buttons in the row can be performed.
+     * 
+     * @param selector css selector or xpath of the table
+     * @param criteria text or pattern of each column to match
+     * @param tableOptions column names and column mappers applied before matching
+     * @returns navigator scoped to the row or null if no row matches
+     */
+    findRow(selector:string, criteria:{[column:string]: string | RegExp}, tableOptions?:TableOptions) : Promise<Navigator | null>
+
+    /**
+     * Sets the default chrome puppeteer download path
+     * See - https://github.com/GoogleChrome/puppeteer/issues/299
+     * @deprecated use the downloadPath option with download
+     * @param {*} downloadPath 
+     */
+    setDownloadPath(downloadPath:string) : Promise<void>
+
+    /**
+     * Intercepts requests with urls matching the pattern.
+     * The handler can fulfill the request from a fixture, change the response, add latency or abort the request.
+     * Routes apply to all navigators of the page.  Routes added most recently take precedence.
+     * @param urlPattern string contained in the url or RegExp tested against the url
+     * @param handler receives the intercepted request
+     */
+    route(urlPattern:UrlPattern, handler:RouteHandler) : Promise<void>
+
+    /**
+     * Removes a route handler, or all handlers for the pattern if no handler is given
+     */
+    unroute(urlPattern:UrlPattern, handler?:RouteHandler) : void
+
+    /**
+     * Records all completed requests of the page to a HAR file written when the recording is stopped
+     * @param filePath HAR file path
+     * @param include only record requests matching one of these url patterns. default all
+     */
+    recordHar(filePath:string, include?:UrlPattern[]) : HarRecording
+
+    /**
+     * Serves requests from a HAR file recorded with recordHar.
+     * By default requests not found in the HAR are aborted so the network is never used.
+     * @param filePath HAR file path
+     */
+    replayHar(filePath:string, replayOptions?:HarReplayOptions) : Promise<void>
+
+    /**
+     * Performs the trigger action and waits for the file it downloads to be completely saved
+     * @param triggerFn action which starts the download such as () => navigator.click('#export')
+     * @returns the saved file path, suggested filename, size and mime type
+     */
+    download(triggerFn:() => Promise<unknown>) : Promise<DownloadInfo>
+
+    /**
+     * All downloads completed by this navigator and navigators sharing its page
+     */
+    downloads() : DownloadInfo[]
+
+    /**
+     * All dialogs opened by the page of this navigator and how they were answered
+     */
+    dialogs() : DialogInfo[]
+
+    /**
+     * Saves cookies and the local and session storage of every origin visited by the page to a JSON file.
+     * Session storage is only saved for origins loaded in the page.
+     * @param filePath JSON file to write
+     * @param saveOptions include IndexedDB databases
+     */
+    saveState(filePath:string, saveOptions?:SaveStateOptions) : Promise<BrowserState>
+
+    /**
+     * Restores cookies, storage and IndexedDB databases saved with saveState to the browser context of the page.
+     * Session storage is applied as each origin is loaded by this page.
+     * @param filePath JSON file written by saveState
+     */
+    restoreState(filePath:string) : Promise<BrowserState>
+
+    /**
+     * @deprecated use scrollAndCollect
+     */
+    scrollElementToBottom(elementSelector:string, delay:number) : Promise<void>
+
+    /**
+     * Scrolls a container step by step collecting the items it loads until no new items appear,
+     * the maximum number of items is reached or the until predicate is true.
+     * Waits for network activity after each scroll.
+     * 
+     * @param containerSelector css selector or xpath of the scroll container.  null scrolls the window
+     * @param itemSelector css selector or xpath of the items relative to the container
+     * @param valueMapFn function to map each item element to the value collected
+     * @param collectOptions stop conditions, scrolling and duplicate item detection
+     */
+    scrollAndCollect(containerSelector:string | null, itemSelector:string, valueMapFn:ElementMapFn, collectOptions?:ScrollCollectOptions) : Promise<any[]>
+
+    /**
+     * Waits for element to be visible, function to be true or timeout if number
+     * @param condition css selector, xpath or function
+     */
+    wait(condition:SelectorType) : Promise<JSHandle | void>
+
+    /**
+     * Waits for condition to be true
+     * @param selector css selector, xpath or function
+     * @param condition function that receives element of selector as input.
+     * @param options 'waitAfter' additinoal wait time after condition is true
+     * @param args serializable values passed to condition after the element
+     */
+    waitFn(selector:string, condition: (element:ElementAny, ...args:any[]) => boolean, options?: PageFnOptions & {waitAfter?:number}, ...args:any[]) : Promise<void>
+
+    /**
+     * Waits for the text content of the element to contain the text or match the pattern
+     * @param selector css selector or xpath
+     * @param text text contained or pattern matched by the trimmed text content
+     */
+    waitForText(selector:string, text:string | RegExp, waitOptions?:WaitOptions) : Promise<void>
+
+    /**
+     * Waits for the url of the navigator's frame to contain the text or match the pattern
+     */
+    waitForUrl(pattern:UrlPattern, waitOptions?:WaitOptions) : Promise<void>
+
+    /**
+     * Waits until the DOM has not changed for the quiet time.  Useful for pages which animate or re-render after network activity has completed
+     * @param selector css selector or xpath of the element to observe.  null observes the whole document, or the root of a scoped navigator
+     * @param quietTime milliseconds without DOM changes. default 500
+     */
+    waitForDomStable(selector:string | null, quietTime?:number, waitOptions?:WaitOptions) : Promise<void>
+
+    /**
+     * Waits until no element matches the selector or the element is not visible
+     * @param selector css selector or xpath
+     */
+    waitForHidden(selector:string, waitOptions?:WaitOptions) : Promise<void>
+
+    /**
+     * Waits for all of the conditions to be met
+     * @param conditions wait conditions, or selectors, functions and numbers waited on with wait
+     */
+    waitAll(...conditions:WaitConditionType[]) : Promise<void>
+
+    /**
+     * Waits for any one of the conditions to be met.  Fails once none of the conditions can be met
+     * @param conditions wait conditions, or selectors, functions and numbers waited on with wait
+     */
+    waitAny(...conditions:WaitConditionType[]) : Promise<void>
+
+    /**
+     * Wait for any network activity to complete
+     */
+    waitActivity(idleTime:number|undefined, idleLoadTime:number|undefined) : Promise<unknown>
+
+    /**
+     * Network requests tracked by waitActivity which have not completed.
+     * Useful to find which requests are preventing the page from becoming idle.
+     */
+    pendingRequests() : PendingRequest[]
+
+    /**
+     * Performs a click on a HTML field.
+     * @param selector css selector or xpath
+     * @param clickOptions ClickOptions and how dialogs opened by the click are answered
+     */
+    click(selector:string | ElementHandle, clickOptions?:ClickOptions & DialogActionOptions) : Promise<void>
+
+    /**
+     * Performs a click which opens a new tab or window and returns a navigator for the new page.
+     * The navigator has its own activity monitor and a copy of this navigator's options.
+     * If this navigator's page belongs to a session the new navigator is added to the session.
+     * @param selector css selector or xpath
+     * @param clickOptions ClickOptions
+     */
+    clickAndWaitForPopup(selector:string | ElementHandle, clickOptions?:ClickOptions) : Promise<Navigator>
+
+    /**
+     * Creates assertions which retry until met or the expectTimeout is reached.
+     * Failures report the last actual value seen.
+     * @param selector css selector, xpath or selector chain.  Not required for toHaveUrl
+     * @param expectOptions timeout and soft assertion overrides
+     */
+    expect(selector?:string, expectOptions?:ExpectOptions) : Matchers
+
+    /**
+     * Soft expectations not met so far by this navigator and navigators sharing its page
+     */
+    expectationFailures() : ExpectationError[]
+
+    /**
+     * Throws a SoftExpectationsError reporting all soft expectations not met and clears them
+     */
+    assertExpectations() : void
+
+    /**
+     * Stops monitoring the page and closes it.  Closes the whole page for navigators of frames or elements.
+     */
+    close() : Promise<void>
+
+    /**
+     * Types text into a HTML field
+     * @param selector css selector
+     * @param text type text into field
+     * @param typeOptions 'delay' sets delay between each key typed
+     */
+    type(selector:string, text:string, typeOptions?: { delay: number }) : Promise<void>
+
+    /**
+     * Selects an option within a HTML list.
+     * Filters out any control characters that might be in the list label or value before attempting to match.
+     * 
+     * @param selector css selector
+     * @param selectOption 'value' matches the option value attribute. 'label' matches the option label attribute
+     */
+    select(selector:string, selectOption: {value?:string, label?:string}) : Promise<void>
+
+    /**
+     * Fills form fields found by name, id, label text or aria-label.
+     * Text fields are cleared before the value is set and the input and change events are dispatched for each field.
+     * 
+     * @param formSelector css selector or xpath of the form or any element containing the fields
+     * @param values values by field.  See FormValue for the value of each type of field
+     */
+    fillForm(formSelector:string, values:FormValues) : Promise<void>
+
+    /**
+     * Reads the current value of all fields in a form keyed by name, or id or aria-label when the field has no name.
+     * The result can be passed to fillForm.
+     * @param formSelector css selector or xpath of the form or any element containing the fields
+     */
+    readForm(formSelector:string) : Promise<FormValues>
+
+
+    /**
+     * Find a frame and return a new navigator for the frame
+     * @param selector frame selector
+     */
+    frameNavigator(selector:string) : Promise<Navigator>
+
+    /**
+     * Returns a navigator whose queries and actions are all relative to the root element.
+     * The navigator shares the options and activity monitor of this navigator.
+     * Actions fail with a 'detached' error if the root element is removed from the document.
+     * @param selector css selector, xpath or handle of the root element
+     */
+    within(selector:string | ElementHandle) : Promise<Navigator>
+
+    /**
+     * Find an element with an open shadow root and return a new navigator scoped to the shadow root
+     * @param selector shadow host selector
+     */
+    shadowNavigator(selector:string) : Promise<Navigator>
+ 
+}
+
+/**
+ * Navigator actions recorded when a trace is enabled
+ */
+const tracedActions = [
+    'goto', 'queryElementHandle', 'queryElementHandles', 'queryElementHandleWithFn', 'queryElement', 'queryElements',
+    'queryChildrenAsHandles', 'registerHelpers', 'route', 'replayHar', 'setDownloadPath', 'download', 'saveState', 'restoreState', 'scrollElementToBottom', 'scrollAndCollect', 'wait', 'waitFn', 'waitActivity',
+    'waitForText', 'waitForUrl', 'waitForDomStable', 'waitForHidden', 'waitAll', 'waitAny',
+    'click', 'clickAndWaitForPopup', 'close', 'type', 'select', 'fillForm', 'readForm', 'extractTable', 'findRow', 'frameNavigator', 'shadowNavigator', 'within'
+]
+
+/**
+ * Navigator actions which accept a selector as the first argument and may be given a selector chain
+ */
+const selectorActions = [
+    'queryElementHandle', 'queryElementHandles', 'queryElement', 'queryElements', 'queryChildrenAsHandles',
+    'scrollElementToBottom', 'scrollAndCollect', 'wait', 'waitFn', 'waitForText', 'waitForDomStable', 'waitForHidden', 'click', 'clickAndWaitForPopup', 'type', 'select', 'fillForm', 'readForm',
+    'extractTable', 'findRow', 'frameNavigator', 'shadowNavigator', 'within'
+]
+
+/**
+ * Element and query actions, which fail for navigators whose root element is detached.
+ * Page level actions such as close and saveState still work
+ */
+const rootActions = [
+    'queryElementHandle', 'queryElementHandles', 'queryElement', 'queryElements', 'queryChildrenAsHandles',
+    'scrollElementToBottom', 'scrollAndCollect', 'wait', 'waitFn', 'waitForText', 'waitForDomStable', 'waitForHidden', 'click', 'clickAndWaitForPopup', 'type', 'select', 'fillForm', 'readForm',
+    'extractTable', 'findRow', 'frameNavigator', 'shadowNavigator', 'within'
+]
+
+/**
+ * Selector actions which only query.  They resolve selector chains without waiting, so polling such as expect is never blocked,
+ * and return no result if a segment of the chain is not found
+ */
+const chainQueryActions = ['queryElementHandle', 'queryElementHandles', 'queryElement', 'queryElements', 'queryChildrenAsHandles']
+
+/**
+ * Splits the first segment and its separator from the rest of a selector chain
+ */
+function splitSelectorChain(selectorChain:string) {
+    const [segment, separator, ...rest] = selectorChain.split(selectorChainPattern)
+    return {segment: segment.trim(), separator: separator.trim(), rest: rest.join('').trim()}
+}
+
+/**
+ * Page function testing the first element matching the selector within the root
+ * @param flags flags of the text pattern, or null if the text is not a pattern
+ * @param cancelKey global property set when the wait is cancelled, which ends the wait
+ */
+function elementState(root:Node | null, selector:string, state:'text' | 'hidden', text:string, flags:string | null, cancelKey:string | null) {
+    if (cancelKey && (globalThis as any)[cancelKey]) return true
+    const context = (root || document) as Element
+    const element = (selector.startsWith('//')
+        ? document.evaluate((root ? '.' : '') + selector, context, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null).singleNodeValue
+        : context.querySelector(selector)) as Element | null
+    if (state === 'hidden') {
+        if (!element) return true
+        // same visibility test used by puppeteer
+        const style = window.getComputedStyle(element)
+        const rect = element.getBoundingClientRect()
+        return style.visibility === 'hidden' || !(rect.top || rect.bottom || rect.width || rect.height)
+    }
+    if (!element) return false
+    const content = (element.textContent || '').trim()
+    return flags === null ? content.includes(text) : new RegExp(text, flags).test(content)
+}
+
+/**
+ * Page function resolving once the target has no DOM changes for the quiet time, or the timeout is reached
+ * @param cancelKey global property set when the wait is cancelled, which ends the wait
+ */
+function observeDomStable(target:Node | null, quietTime:number, timeout:number, cancelKey:string | null) {
+    return new Promise<'stable' | 'timeout'>(resolve => {
+        let quietTimer:any
+        const done = (result:'stable' | 'timeout') => {
+            observer.disconnect()
+            clearTimeout(quietTimer)
+            clearTimeout(timeoutTimer)
+            clearInterval(cancelTimer)
+            resolve(result)
+        }
+        const cancelTimer = setInterval(() => {
+            if (cancelKey && (globalThis as any)[cancelKey]) done('timeout')
+        }, 100)
+        const observer = new MutationObserver(() => {
+            clearTimeout(quietTimer)
+            quietTimer = setTimeout(() => done('stable'), quietTime)
+        })
+        const timeoutTimer = setTimeout(() => done('timeout'), timeout)
+        observer.observe(target || document.documentElement, {childList: true, subtree: true, attributes: true, characterData: true})
+        quietTimer = setTimeout(() => done('stable'), quietTime)
+    })
+}
+
+/**
+ * Stops waiting for the conditions of waitAny once one of them is met
+ */
+interface WaitCancellation {
+    /** global property set in every frame on cancel so page functions waiting for a condition end */
+    key: string
+    cancelled: boolean
+    /** resolves on cancel */
+    promise: Promise<void>
+    cancel() : void
+}
+
+let waitCancellationCount = 0
+
+/**
+ * @param parent cancels this cancellation as well, for waitAny nested in a waitAny condition
+ */
+function makeWaitCancellation(driver:PageDriver, parent?:WaitCancellation) : WaitCancellation {
+    let resolveCancel:() => void
+    const cancellation:WaitCancellation = {
+        key: '__navigatorWaitCancelled' + (++waitCancellationCount),
+        cancelled: false,
+        promise: new Promise<void>(resolve => resolveCancel = resolve),
+        cancel: function () {
+            if (cancellation.cancelled) return
+            cancellation.cancelled = true
+            resolveCancel()
+            for (const frameDriver of driver.frames()) {
+                // a frame navigating or detached has no wait left to end
+                frameDriver.evaluate((key:string) => {(globalThis as any)[key] = true}, cancellation.key).catch(() => {})
+            }
+        }
+    }
+    if (parent) parent.promise.then(() => cancellation.cancel())
+    return cancellation
+}
+
+/**
+ * Milliseconds a popup which opened blank is given to navigate to its url
+ */
+const popupNavigationTimeout = 2000
+
+/**
+ * Popups start as a blank page before navigating to their url.
+ * Popups opened without a url or written to by their opener stay blank, so the wait ends after a short time without an error
+ */
+function waitForPopupUrl(popupDriver:PageDriver) {
+    const mainFrame = popupDriver.mainFrame()
+    return new Promise<void>(resolve => {
+        if (mainFrame.url() !== 'about:blank') return resolve()
+        const timer = setTimeout(finish, popupNavigationTimeout)
+
+        function onFrameNavigated(navigatedFrame:Frame) {
+            if (navigatedFrame === mainFrame.frame && mainFrame.url() !== 'about:blank') finish()
+        }
+        function finish() {
+            clearTimeout(timer)
+            popupDriver.off('framenavigated', onFrameNavigated)
+            resolve()
+        }
+        popupDriver.on('framenavigated', onFrameNavigated)
+    })
+}
+
+export function makePageNavigator(page:Page, customOptions:NavigatorOptions = {}):Navigator {
+    return makeDriverNavigator(makePuppeteerDriver(page), customOptions)
+}
+
+/**
+ * Creates a navigator for the page of a driver such as a fake driver used for tests
+ */
+export function makeDriverNavigator(driver:PageDriver, customOptions:NavigatorOptions = {}):Navigator {
+    const services:PageServices = {
+        driver,
+        requestMonitor: startActivityMonitor(driver),
+        downloadManager: makeDownloadManager(driver),
+        requestRouter: makeRequestRouter(driver),
+        dialogManager: makeDialogManager(driver),
+        stateManager: makeStateManager(driver),
+        stateRestored: Promise.resolve(),
+        expectationFailures: []
+    }
+    if (customOptions.restoreState) {
+        services.stateRestored = services.stateManager.restoreState(customOptions.restoreState).then(() => {})
+        // reported by goto
+        services.stateRestored.catch(() => {})
+    }
+    return _makePageNavigator(driver.mainFrame(), services, customOptions)
+}
+
+/**
+ * Page level services shared by all navigators of a page
+ */
+interface PageServices {
+    driver: PageDriver
+    requestMonitor: ActivityMonitor
+    downloadManager: DownloadManager
+    requestRouter: RequestRouter
+    dialogManager: DialogManager
+    stateManager: StateManager
+    /** completes once the restoreState option has been applied */
+    stateRestored: Promise<void>
+    expectationFailures: ExpectationError[]
+}
+
+/**
+ * Create instance of PageNavigator
+ * @param frameDriver driver of the navigator's frame
+ * @param customOptions 
+ * @param root when provided all queries are relative to this element or shadow root
+ * @param cancellation ends the waits of a navigator waiting for the conditions of waitAny
+ */
+function _makePageNavigator(frameDriver:FrameDriver, services: PageServices, customOptions:NavigatorOptions = {}, root?:ElementHandle, cancellation?:WaitCancellation) : Navigator {
+    const {driver, requestMonitor, downloadManager, requestRouter, dialogManager, stateManager} = services
+    const page = driver.page
+    const frame = frameDriver.frame
+    const options:NavigatorOptions = { // default options
+        "waitUntilVisible": true,
+        "waitOnSelectors": true,
+        "waitAfterAction": 0,
+        "waitIdleTime": 0,
+        "waitIdleLoadTime": 0,
+        "useSimulatedClicks": true
+    }
+    updateOptions(customOptions)
+
+    function updateOptions(customOptions:NavigatorOptions = {}) {
+        Object.assign(options, customOptions) // override with any custom options
+        if (customOptions.dialogs) dialogManager.setPolicy(customOptions.dialogs)
+    }
+
+    async function waitAfter(pageNavigator: Navigator) {
+        const startTime = Date.now()
+        await waitAfterAction(pageNavigator)
+        if (options.trace) options.trace.addWaitTime(Date.now() - startTime)
+    }
+
+    async function waitAfterAction(pageNavigator: Navigator) {
+        if (options.waitIdleTime || options.waitIdleLoadTime) await pageNavigator.waitActivity(options.waitIdleTime, options.waitIdleLoadTime)
+        if (options.waitAfterAction) {
+            await pageNavigator.wait(options.waitAfterAction)
+            // ensure there still isn't network activity before we continue
+            // this might be the case where a delayed action we are waiting for triggers more activity
+            if (options.waitIdleTime || options.waitIdleLoadTime) await pageNavigator.waitActivity(options.waitIdleTime, options.waitIdleLoadTime)
+        }
+        if (options.waitAfterCondition !== undefined) await waitForCondition(pageNavigator, options.waitAfterCondition)
+    }
+
+    // number of guarded actions in progress.  Used so only the outermost action captures a screenshot
+    let guardedActionDepth = 0
+
+    /**
+     * True for the outermost action, which reports route and dialog failures and captures a screenshot.
+     * Conditions of waitAny are part of the waitAny action which reports them
+     */
+    function isOutermostAction() {
+        return guardedActionDepth === 1 && !cancellation
+    }
+
+    /**
+     * Rejects once the waits of this navigator are cancelled, so the rest of a cancelled condition is not performed
+     */
+    function untilCancelled<T>(wait:Promise<T>) : Promise<T> {
+        if (!cancellation) return wait
+        return Promise.race([wait, cancellation.promise.then<T>(() => {throw new Error('Wait cancelled')})])
+    }
+
+    /**
+     * Performs the action converting any errors to a NavigatorError and retrying according to the retry policy
+     */
+    async function guardAction<T>(action:string, selector:string | ElementHandle | undefined, actionFn:() => Promise<T>, retryPolicy:RetryPolicy = {attempts: 1}) : Promise<T> {
+        const policy = {...defaultRetryPolicy, ...retryPolicy}
+        const startTime = Date.now()
+        const dialogCount = dialogManager.history().length
+        guardedActionDepth++
+        try {
+            for (let attempt = 1; ; attempt++) {
+                try {
+                    if (cancellation && cancellation.cancelled) throw new Error('Wait cancelled')
+                    const result = await untilCancelled(actionFn())
+                    if (isOutermostAction()) {
+                        const routeError = routeFailureError(action, selector)
+                        if (routeError) throw routeError
+                        checkDialogs(action, selector, dialogCount)
+                    }
+                    return result
+                } catch (actionError) {
+                    // a failed route handler is the likely cause of the action failing, such as a missing fixture
+                    const error = (isOutermostAction() && routeFailureError(action, selector)) || actionError
+                    const navigatorError = toNavigatorError(error, {action, selector: typeof selector === 'string' ? selector : undefined})
+                    if (!(navigatorError instanceof NavigatorError)) throw navigatorError
+
+                    // report the failure against the outermost action such as 'click' rather than the 'wait' it performed
+                    navigatorError.action = action
+                    navigatorError.frameUrl = frameDriver.url()
+                    navigatorError.elapsedTime = Date.now() - startTime
+                    if (attempt >= policy.attempts || !policy.retryOn.includes(navigatorError.kind)) {
+                        if (options.errorScreenshots && isOutermostAction() && !navigatorError.screenshot) {
+                            try {
+                                navigatorError.screenshot = await driver.screenshot()
+                            } catch (error) {} // page may be closed
+                        }
+                        throw navigatorError
+                    }
+                    await new Promise(resolve => setTimeout(resolve, typeof policy.backoff === 'function' ? policy.backoff(attempt) : policy.backoff))
+                }
+            }
+        } finally {
+            guardedActionDepth--
+        }
+    }
+
+    /**
+     * Error reporting the route handlers which threw since the last action, if any
+     */
+    function routeFailureError(action:string, selector:string | ElementHandle | undefined) {
+        const failures = requestRouter.takeFailures()
+        if (!failures.length) return undefined
+        const error = navigatorError('routeFailed', `Route handler failed for ${failures[0].url}: ${failures[0].error && failures[0].error.message}` +
+            (failures.length > 1 ? ` and ${failures.length - 1} more requests` : ''), action, selector)
+        error.cause = failures[0].error
+        return error
+    }
+
+    /**
+     * Fails the action if a dialog policy threw during the action,
+     * or the unexpectedDialogError option is set and a dialog opened which the action did not expect
+     */
+    function checkDialogs(action:string, selector:string | ElementHandle | undefined, dialogCount:number) {
+        const actionDialogs = dialogManager.history().slice(dialogCount)
+        const failedDialog = actionDialogs.find(dialog => dialog.error !== undefined)
+        if (failedDialog) throw navigatorError('unexpectedDialog', `Dialog policy failed for ${failedDialog.type} dialog ${failedDialog.message}: ${failedDialog.error}`, action, selector)
+
+        if (!options.unexpectedDialogError) return
+        const unexpectedDialog = actionDialogs.find(dialog => !dialog.expected)
+        if (unexpectedDialog) throw navigatorError('unexpectedDialog', `Unexpected ${unexpectedDialog.type} dialog: ` + unexpectedDialog.message, action, selector)
+    }
+
+    function waitTimeout(waitOptions:WaitOptions) {
+        return waitOptions.timeout ?? options.waitTimeout ?? 30000
+    }
+
+    /**
+     * Waits for the elementState page function to be true
+     */
+    async function waitForElementState(action:string, selector:string, state:'text' | 'hidden', text:string | RegExp, timeout:number, timeoutMessage:string) {
+        try {
+            await frameDriver.waitForFunction(elementState, {timeout}, root || null, selector, state,
+                typeof text === 'string' ? text : text.source, typeof text === 'string' ? null : text.flags, cancellation ? cancellation.key : null)
+        } catch (error) {
+            if (error.name !== 'TimeoutError') throw error
+            throw new NavigatorError('timeout', timeoutMessage, {action, selector, cause: error})
+        }
+    }
+
+    function navigatorError(kind:NavigatorErrorKind, message:string, action:string, selector?:string | ElementHandle) {
+        return new NavigatorError(kind, message, {action, selector: typeof selector === 'string' ? selector : undefined})
+    }
+
+    /**
+     * Network activity tracked by this navigator.  Navigators for child frames only track requests made by their frame
+     */
+    function activityScope() : ActivityWaitOptions {
+        return {
+            frame: frameDriver === driver.mainFrame() ? undefined : frame,
+            filter: options.activityFilter,
+            timeout: options.activityTimeout,
+            timeoutError: options.activityTimeoutError,
+            cancel: cancellation && cancellation.promise
+        }
+    }
+
+    /**
+     * xpath expressions starting with '//' are made relative to the root element
+     */
+    function scopedXPath(selector:string) {
+        return root ? '.' + selector : selector
+    }
+
+    async function waitForSelector(selector:string) {
+        if (!root) return await frameDriver.waitForSelector(selector, {visible:options.waitUntilVisible})
+
+        // a cancelled wait resolves with true rather than an element
+        return await frameDriver.waitForFunction((root:Element, selector:string, visible:boolean, cancelKey:string | null) => {
+            if (cancelKey && (globalThis as any)[cancelKey]) return true
+            const element = selector.startsWith('//')
+                ? document.evaluate('.' + selector, root, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null).singleNodeValue as Element
+                : root.querySelector(selector)
+            if (!element) return false
+            if (!visible) return element
+
+            // same visibility test used by puppeteer
+            const style = window.getComputedStyle(element)
+            const rect = element.getBoundingClientRect()
+            return style.visibility !== 'hidden' && !!(rect.top || rect.bottom || rect.width || rect.height) ? element : false
+        }, {}, root, selector, !!options.waitUntilVisible, cancellation ? cancellation.key : null)
+    }
+
+    async function readTableData(tableElement:ElementHandle) {
+        return await frameDriver.evaluate(readTable, tableElement) as TableData
+    }
+
+    // number of scoped actions in progress.  Used so the root is only checked once for the outermost action
+    let scopedActionDepth = 0
+
+    /**
+     * Actions of navigators with a root fail when the root is no longer in the document
+     * rather than silently finding nothing
+     */
+    function checkRootActions(navigator: Navigator) {
+        if (!root) return navigator
+        const actions = navigator as any
+        for (const action of rootActions) {
+            const actionFn = actions[action]
+            actions[action] = async function (this: Navigator, ...args:any[]) {
+                scopedActionDepth++
+                try {
+                    if (scopedActionDepth === 1) {
+                        const isConnected = await frameDriver.evaluate((root:Node) => root.isConnected, root).catch(() => false)
+                        if (!isConnected) throw new NavigatorError('detached', 'Navigator root element is detached from the document', {action, selector: typeof args[0] === 'string' ? args[0] : undefined, frameUrl: frameDriver.url()})
+                    }
+                    return await actionFn.apply(this, args)
+                } finally {
+                    scopedActionDepth--
+                }
+            }
+        }
+        return navigator
+    }
+
+    /**
+     * Navigator for the frame or shadow root entered by the first segment of a selector chain.
+     * Returns null if the segment is not found and the chain is resolved without waiting
+     */
+    async function enterChainSegment(navigator:Navigator, action:string, segment:string, separator:string, shouldWait:boolean) : Promise<Navigator | null> {
+        const segmentError = (kind:NavigatorErrorKind, message:string) => new NavigatorError(kind, message, {action, selector: segment, frameUrl: frameDriver.url()})
+
+        if (shouldWait && options.waitOnSelectors) await navigator.wait(segment)
+        const element = await navigator.queryElementHandle(segment)
+        if (!element) {
+            if (!shouldWait) return null
+            throw segmentError('notFound', 'Element not found ' + segment)
+        }
+
+        // '>>>' enters a frame or a shadow root depending on the element
+        const childFrameDriver = separator === '>>>' ? await frameDriver.contentFrame(element) : null
+        if (childFrameDriver) return _makePageNavigator(childFrameDriver, services, options)
+
+        const shadowRoot = (await frameDriver.evaluateHandle((element:Element) => element.shadowRoot, element)).asElement()
+        if (!shadowRoot) {
+            if (!shouldWait) return null
+            throw segmentError(separator === '>>>' ? 'frameNotFound' : 'notFound', 'No frame or open shadow root for ' + segment)
+        }
+        return _makePageNavigator(frameDriver, services, options, shadowRoot)
+    }
+
+    function chainSelectorActions(navigator: Navigator) {
+        const actions = navigator as any
+        for (const action of selectorActions) {
+            const actionFn = actions[action]
+            actions[action] = async function (this: Navigator, selector:any, ...args:any[]) {
+                if (!isSelectorChain(selector)) return actionFn.call(this, selector, ...args)
+
+                // the rest of the chain is resolved by the navigator of the frame or shadow root
+                const {segment, separator, rest} = splitSelectorChain(selector)
+                const shouldWait = !chainQueryActions.includes(action) && action !== 'waitForHidden'
+                const childNavigator = await enterChainSegment(this, action, segment, separator, shouldWait)
+                // a missing segment hides the rest of the chain
+                if (!childNavigator) return action === 'waitForHidden' ? undefined : action === 'queryElementHandle' || action === 'queryElement' ? null : []
+                return (childNavigator as any)[action](rest, ...args)
+            }
+        }
+        return navigator
+    }
+
+    function traceActions(navigator: Navigator) {
+        const actions = navigator as any
+        for (const action of tracedActions) {
+            const actionFn = actions[action]
+            actions[action] = function (this: Navigator, ...args:any[]) {
+                if (!options.trace) return actionFn.apply(this, args)
+                return options.trace.record(driver, frameDriver, action, args, () => actionFn.apply(this, args))
+            }
+        }
+        return navigator
+    }
+
+    return traceActions(checkRootActions(chainSelectorActions({
+        updateOptions,
+
+        page: ()=> page,
+        frame: ()=> frame,
+    
+        goto: async function (url:string, waitCondition?:SelectorType, gotoOptions:DialogActionOptions = {}) {
+            return dialogManager.expectDialog(gotoOptions.expectDialog, () => guardAction('goto', undefined, async () => {
+                await services.stateRestored
+                const navigation = frameDriver.goto(url).catch(error => {
+                    if (error && error.name === 'TimeoutError') throw error
+                    throw new NavigatorError('navigationFailed', `Navigation to ${url} failed: ${error && error.message || error}`, {action: 'goto', cause: error})
+                })
+                // wait for the previous navigation to complete.  A page which fails to load rejects the navigation instead
+                const pageResponse = await Promise.race([frameDriver.waitForNavigation(), navigation.then(() => new Promise<never>(() => {}))])
+                if (waitCondition)
+                    await this.wait(waitCondition)
+                else await waitAfter(this)
+
+                return pageResponse
+            }))
+        },
+        
+        queryElementHandle: async function (selector: string | ElementHandle) {
+            if (typeof selector !== 'string') return selector
+            return await frameDriver.query(selector.startsWith('//') ? scopedXPath(selector) : selector, root)
+        },
+
+        queryElementHandles: async function (selector: string) {
+            return await frameDriver.queryAll(selector.startsWith('//') ? scopedXPath(selector) : selector, root)
+        },
+
+        queryElementHandleWithFn: async function (selectorFn: ElementMatchFn, context: ElementHandle, ...args:any[]) {
+            const element = await frameDriver.evaluate((context, selectorFnText, args) => {
+                // Functions can not be passed as parameters to the browser page
+                // So we pass in the function source text and recreate the function within the browser page
+                const selectorFn = new Function(' return (' + selectorFnText + ').apply(null, arguments)');
+
+                // test all descendants of the element
+                if (!context) context = document
+                const descendants = document.evaluate("descendant::*", context, null, XPathResult.ORDERED_NODE_ITERATOR_TYPE, null);
+                let descendant = descendants.iterateNext()
+                while(descendant) {
+                    if (selectorFn(descendant, ...args)) return descendant
+                    descendant = descendants.iterateNext()
+                }
+
+                return null
+            }, context || root, callbackText(selectorFn, 'queryElementHandleWithFn callback'), args);
+            return element
+        },
+
+        queryElement: async function (selector:string, valueMapFn:ElementMapFn, ...args:any[]) { 
+            const elements = await this.queryElements(selector, valueMapFn, ...args)
+            if (elements.length) return elements[0]
+            return null
+        },
+
+        queryElements: async function (selector:string, valueMapFn:ElementMapFn, ...args:any[]): Promise<any[]> {
+            const elements = await frameDriver.evaluate((selector, valueMapFnText, root, args) => {
+                // Functions can not be passed as parameters to the browser page
+                // So we pass in the function source text and recreate the function within the browser page
+                const valueMapFn = new Function(' return (' + valueMapFnText + ').apply(null, arguments)');
+                const isXpath = selector.startsWith('//')
+                const context = root || document
+
+                // create an array of all the found elements and map them using the supplied function
+                // we must map them to new objects since the browser elements can not be serialized back to the Node environment
+                if (isXpath) {
+                    const resultArray:any[] = []
+                    const xpathResult = document.evaluate(root ? '.' + selector : selector, context, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null)
+                    for (let resultIndex = 0; resultIndex < xpathResult.snapshotLength; resultIndex++) {
+                        resultArray.push(xpathResult.snapshotItem(resultIndex))
+                    }
+                    return resultArray.map(element => valueMapFn(element, ...args));
+                } else {
+                    return Array.from(context.querySelectorAll(selector)).map(element => valueMapFn(element, ...args));
+                }
+            }, selector, callbackText(valueMapFn, 'queryElements callback'), root || null, args);
+            return elements;
+        },
+        
+        queryChildrenAsHandles: async function (parentSelector:string, descendantFn: (element:Element, ...args:any[]) => boolean, ...args:any[]) {
+            const parentElementHandle = await this.queryElementHandle(parentSelector)
+            if (!parentElementHandle) return []
+
+            const descendantFnText = callbackText(descendantFn, 'queryChildrenAsHandles callback')
+            const matchingChildren = []
+            const childrenHandles = await frameDriver.queryAll('./*', parentElementHandle)
+            for (const childHandle of childrenHandles) {
+
+                const isMatch = await frameDriver.evaluate((childHandle, descendantFnText, args) => {
+                    // Functions can not be passed as parameters to the browser page
+                    // So we pass in the function source text and recreate the function within the browser page
+                    const descendantFn = new Function(' return (' + descendantFnText + ').apply(null, arguments)');
+
+                    // first test the immediate child
+                    if (descendantFn(childHandle, ...args)) return true
+
+                    // test all descendants of the child
+                    const descendants = document.evaluate("descendant::*", childHandle, null, XPathResult.UNORDERED_NODE_ITERATOR_TYPE, null);
+                    let descendant = descendants.iterateNext()
+                    while(descendant) {
+                        if (descendantFn(descendant, ...args)) return true
+                        descendant = descendants.iterateNext()
+                    }
+
+                    return false
+                }, childHandle, descendantFnText, args);
+
+                if (isMatch) matchingChildren.push(childHandle)
+            }
+            
+            return matchingChildren;
+        },
+
+        registerHelpers: async function (helpers:PageHelpers) {
+            const installArguments = helperArguments(helpers)
+            await driver.addInitScript(installHelpers, ...installArguments)
+            for (const pageFrameDriver of driver.frames()) {
+                // frames which are navigating are installed by the init script once their new document is created
+                await pageFrameDriver.evaluate(installHelpers, ...installArguments).catch(() => {})
+            }
+        },
+
+        route: async function (urlPattern:UrlPattern, handler:RouteHandler) {
+            return await requestRouter.route(urlPattern, handler)
+        },
+
+        unroute: function (urlPattern:UrlPattern, handler?:RouteHandler) {
+            requestRouter.unroute(urlPattern, handler)
+        },
+
+        recordHar: function (filePath:string, include?:UrlPattern[]) {
+            return recordHar(driver, filePath, include)
+        },
+
+        replayHar: async function (filePath:string, replayOptions?:HarReplayOptions) {
+            return await requestRouter.route(/./, await makeHarReplayHandler(filePath, replayOptions))
+        },
+
+        setDownloadPath: async function (downloadPath:string) {
+            return await downloadManager.setDownloadPath(downloadPath)
+        },
+
+        download: async function (triggerFn:() => Promise<unknown>) {
+            return await guardAction('download', undefined, () => downloadManager.download(triggerFn, {downloadPath: options.downloadPath, timeout: options.downloadTimeout}))
+        },
+
+        downloads: function () {
+            return downloadManager.history()
+        },
+
+        dialogs: function () {
+            return dialogManager.history()
+        },
+
+        saveState: async function (filePath:string, saveOptions?:SaveStateOptions) {
+            return await stateManager.saveState(filePath, saveOptions)
+        },
+
+        restoreState: async function (filePath:string) {
+            return await stateManager.restoreState(filePath)
+        },
+        
+        scrollElementToBottom: async function (elementSelector:string, delay:number) {
+            const scrollElement = await this.queryElementHandle(elementSelector)
+            await frameDriver.evaluate( element => {
+                element.scrollTop = 100000; // use large number to force to bottom.  TODO - determine if there is an exact way to get this value
+            }, scrollElement );
+        
+            await frameDriver.waitForTimeout(delay);
+        },
+
+        scrollAndCollect: async function (containerSelector:string | null, itemSelector:string, valueMapFn:ElementMapFn, collectOptions:ScrollCollectOptions = {}) {
+            return await guardAction('scrollAndCollect', containerSelector || undefined, async () => {
+                const containerNavigator = containerSelector ? await this.within(containerSelector) : this
+                const containerElement = containerSelector ? await this.queryElementHandle(containerSelector) : null
+                const key = collectOptions.key || ((item:any) => JSON.stringify(item))
+                const maxItems = collectOptions.maxItems || Infinity
+                const maxEmptyScrolls = collectOptions.maxEmptyScrolls || 2
+                const maxScrolls = collectOptions.maxScrolls || 1000
+
+                const items:any[] = []
+                const itemKeys = new Set<string>()
+                let emptyScrolls = 0
+                for (let scrollCount = 0; scrollCount <= maxScrolls; scrollCount++) {
+                    const newItems = (await containerNavigator.queryElements(itemSelector, valueMapFn)).filter(item => !itemKeys.has(key(item)))
+                    newItems.forEach(item => itemKeys.add(key(item)))
+                    items.push(...newItems)
+
+                    if (items.length >= maxItems) return items.slice(0, maxItems)
+                    if (collectOptions.until && collectOptions.until(items)) return items
+                    emptyScrolls = newItems.length ? 0 : emptyScrolls + 1
+                    if (emptyScrolls >= maxEmptyScrolls) return items
+
+                    await frameDriver.evaluate((container:Element | null, scrollStep:number | null) => {
+                        if (container) container.scrollTop += scrollStep || container.clientHeight
+                        else window.scrollBy(0, scrollStep || window.innerHeight)
+                    }, containerElement, collectOptions.scrollStep || null)
+                    await this.waitActivity(options.waitIdleTime, options.waitIdleLoadTime)
+                    await this.wait(collectOptions.scrollDelay === undefined ? 250 : collectOptions.scrollDelay)
+                }
+                return items
+            })
+        },
+
+        wait: async function (condition:SelectorType) {
+            if (typeof condition === 'string') {
+                return await guardAction('wait', condition, async () => {
+                    try {
+                        return await waitForSelector(condition)
+                    } catch (error) {
+                        if (error.name !== 'TimeoutError') throw error
+                        // distinguish an element which exists but never became visible
+                        if (await this.queryElementHandle(condition))
+                            throw new NavigatorError('notVisible', 'Element not visible ' + condition, {action: 'wait', selector: condition, cause: error})
+                        throw new NavigatorError('notFound', 'Element not found ' + condition, {action: 'wait', selector: condition, cause: error})
+                    }
+                })
+            }
+            if (typeof condition ==='function') {
+                return await guardAction('wait', undefined, () => frameDriver.waitForFunction(condition, {}))
+            }
+            if (typeof condition === 'number') {
+                await untilCancelled(frameDriver.waitForTimeout(condition))
+            }
+        },
+    
+        waitFn: async function (selector:string, condition: (element:ElementAny, ...args:any[]) => boolean, options?: PageFnOptions & {waitAfter?:number}, ...args:any[]) {
+            const conditionText = callbackText(condition, 'waitFn condition')
+            await guardAction('waitFn', selector, async () => {
+                const selectElement = await this.wait(selector)
+                await frameDriver.waitForFunction((element:Element, conditionText:string, args:any[]) => {
+                    const condition = new Function(' return (' + conditionText + ').apply(null, arguments)')
+                    return condition(element, ...args)
+                }, options, selectElement as JSHandle, conditionText, args)
+            })
+            if (options && options.waitAfter)
+                await this.wait(options.waitAfter)
+        },
+
+        waitActivity: async function (idleTime = options.waitIdleTime, idleLoadTime = options.waitIdleLoadTime) {
+            return await guardAction('waitActivity', undefined, () => requestMonitor.waitForPendingActivity(idleTime, idleLoadTime, activityScope()))
+        },
+
+        waitForText: async function (selector:string, text:string | RegExp, waitOptions:WaitOptions = {}) {
+            const timeout = waitTimeout(waitOptions)
+            await guardAction('waitForText', selector, () =>
+                waitForElementState('waitForText', selector, 'text', text, timeout, `Text ${text} not found in ${selector} within ${timeout}ms`))
+        },
+
+        waitForUrl: async function (pattern:UrlPattern, waitOptions:WaitOptions = {}) {
+            const timeout = waitTimeout(waitOptions)
+            await guardAction('waitForUrl', undefined, () => new Promise<void>((resolve, reject) => {
+                if (urlMatches(frameDriver.url(), pattern)) return resolve()
+                const timer = setTimeout(() => finish(navigatorError('timeout', `Url ${pattern} not reached within ${timeout}ms.  Current url ${frameDriver.url()}`, 'waitForUrl')), timeout)
+
+                // also emitted for navigations within the document such as history.pushState
+                function onFrameNavigated(navigatedFrame:Frame) {
+                    if (navigatedFrame === frame && urlMatches(frameDriver.url(), pattern)) finish()
+                }
+                if (cancellation) cancellation.promise.then(() => finish())
+                function finish(error?:Error) {
+                    clearTimeout(timer)
+                    driver.off('framenavigated', onFrameNavigated)
+                    if (error) reject(error)
+                    else resolve()
+                }
+                driver.on('framenavigated', onFrameNavigated)
+            }))
+        },
+
+        waitForDomStable: async function (selector:string | null, quietTime = 500, waitOptions:WaitOptions = {}) {
+            const timeout = waitTimeout(waitOptions)
+            await guardAction('waitForDomStable', selector || undefined, async () => {
+                if (selector && options.waitOnSelectors)
+                    await this.wait(selector)
+                const target = selector ? await this.queryElementHandle(selector) : root || null
+                if (selector && !target) throw navigatorError('notFound', 'Element not found ' + selector, 'waitForDomStable', selector)
+
+                const result = await frameDriver.evaluate(observeDomStable, target, quietTime, timeout, cancellation ? cancellation.key : null)
+                if (result !== 'stable') throw navigatorError('timeout', `DOM of ${selector || 'document'} not stable for ${quietTime}ms within ${timeout}ms`, 'waitForDomStable', selector || undefined)
+            })
+        },
+
+        waitForHidden: async function (selector:string, waitOptions:WaitOptions = {}) {
+            const timeout = waitTimeout(waitOptions)
+            await guardAction('waitForHidden', selector, () =>
+                waitForElementState('waitForHidden', selector, 'hidden', '', timeout, `Element still visible ${selector} after ${timeout}ms`))
+        },
+
+        waitAll: async function (...conditions:WaitConditionType[]) {
+            await guardAction('waitAll', undefined, () => Promise.all(conditions.map(condition => waitForCondition(this, condition))))
+        },
+
+        waitAny: async function (...conditions:WaitConditionType[]) {
+            await guardAction('waitAny', undefined, async () => {
+                if (!conditions.length) return
+                // conditions are waited on untraced as part of this action, and the waits of those not met are cancelled
+                // once one is.  Selectors and page functions the browser is still polling for are left to time out there
+                const conditionCancellation = makeWaitCancellation(driver, cancellation)
+                const conditionNavigator = _makePageNavigator(frameDriver, services, {...options, trace: undefined, dialogs: undefined}, root, conditionCancellation)
+                try {
+                    await new Promise<void>((resolve, reject) => {
+                        let failures = 0
+                        for (const condition of conditions) {
+                            waitForCondition(conditionNavigator, condition).then(() => resolve(), error => {
+                                if (++failures === conditions.length) reject(error)
+                            })
+                        }
+                    })
+                } finally {
+                    conditionCancellation.cancel()
+                }
+            })
+        },
+
+        pendingRequests: function () {
+            return requestMonitor.pendingRequests(activityScope())
+        },
+    
+        click: async function (selector:string | ElementHandle, clickOptions:ClickOptions & DialogActionOptions = {}) {
+            const {expectDialog, ...mouseClickOptions} = clickOptions
+            await dialogManager.expectDialog(expectDialog, async () => {
+                await guardAction('click', selector, async () => {
+                    if (options.waitOnSelectors && typeof selector === 'string')
+                        await this.wait(selector)
+                    const targetElement = await this.queryElementHandle(selector)
+                    if (!targetElement) throw navigatorError('notFound', 'Element not found ' + selector, 'click', selector)
+
+                    if (options.useSimulatedClicks) {
+                        await frameDriver.evaluate(element => element.click(), targetElement)
+                    } else {
+                        await frameDriver.click(targetElement, mouseClickOptions)
+                    }
+                }, options.retry)
+
+                await waitAfter(this)
+            })
+        },
+
+        clickAndWaitForPopup: async function (selector:string | ElementHandle, clickOptions?:ClickOptions) {
+            const timeout = options.popupTimeout === undefined ? 30000 : options.popupTimeout
+            let onPopup:(popup:Page) => void = () => {}
+            const popupOpened = new Promise<Page>(resolve => onPopup = resolve)
+            driver.on('popup', onPopup)
+
+            try {
+                await this.click(selector, clickOptions)
+                const popup = await guardAction('clickAndWaitForPopup', selector, async () => {
+                    const popup = await new Promise<Page | undefined>(resolve => {
+                        const timer = setTimeout(() => resolve(undefined), timeout)
+                        popupOpened.then(popup => {
+                            clearTimeout(timer)
+                            resolve(popup)
+                        })
+                    })
+                    if (!popup) throw navigatorError('timeout', `Popup not opened within ${timeout}ms by ` + selector, 'clickAndWaitForPopup', selector)
+                    return popup
+                })
+
+                const popupDriver = driver.pageDriver(popup)
+                await waitForPopupUrl(popupDriver)
+                // the popup shares the browser context so restored state already applies
+                const popupNavigator = makeDriverNavigator(popupDriver, {...options, restoreState: undefined})
+                if (options.waitIdleTime || options.waitIdleLoadTime) await popupNavigator.waitActivity(options.waitIdleTime, options.waitIdleLoadTime)
+
+                const session = sessionForPage(page)
+                if (session) session.add(popupNavigator)
+                return popupNavigator
+            } finally {
+                driver.off('popup', onPopup)
+            }
+        },
+
+        expect: function (selector?:string, expectOptions:ExpectOptions = {}) {
+            // matchers poll with their own untraced navigator so only the matcher is recorded, not every query it polls with.
+            // Actions of other navigators performed meanwhile are still recorded
+            const matcherNavigator = options.trace ? _makePageNavigator(frameDriver, services, {...options, trace: undefined, dialogs: undefined}, root) : this
+            return makeMatchers({
+                navigator: matcherNavigator,
+                selector,
+                timeout: expectOptions.timeout ?? options.expectTimeout ?? 5000,
+                soft: expectOptions.soft ?? options.softExpect ?? false,
+                failures: services.expectationFailures,
+                runMatcher: (matcher, args, matcherFn) => {
+                    const trace = options.trace
+                    if (!trace) return matcherFn()
+                    return trace.record(driver, frameDriver, 'expect.' + matcher, [selector, ...args], matcherFn)
+                }
+            })
+        },
+
+        expectationFailures: function () {
+            return services.expectationFailures.slice()
+        },
+
+        assertExpectations: function () {
+            const failures = services.expectationFailures.splice(0)
+            if (failures.length) throw new SoftExpectationsError(failures)
+        },
+
+        close: async function () {
+            requestMonitor.stopMonitoring()
+            if (!driver.isClosed()) await driver.close()
+        },
+    
+        type: async function (selector:string, text:string, typeOptions?: { delay: number }) {
+            await guardAction('type', selector, async () => {
+                if (options.waitOnSelectors)
+                    await this.wait(selector)
+                const targetElement = await this.queryElementHandle(selector)
+                if (!targetElement) throw navigatorError('notFound', 'Element not found ' + selector, 'type', selector)
+                await frameDriver.type(targetElement, text, typeOptions)
+            }, options.retry)
+    
+            await waitAfter(this)
+        },
+    
+        select: async function (selector:string, selectOption: {value?:string, label?:string}) {
+            await guardAction('select', selector, async () => {
+                if (options.waitOnSelectors)
+                    await this.wait(selector)
+
+                const selectElement = await this.queryElementHandle(selector)
+                if (!selectElement) throw navigatorError('notFound', 'Element not found ' + selector, 'select', selector)
+                const isSelected = await frameDriver.evaluate((selectElement:Element, selectOption) => {
+                    let optionElement:HTMLOptionElement
+
+                    // find matching option.  Remove any control characters from option values or labels
+                    if (selectOption.label)
+                        optionElement = Array.from(selectElement.children).find(optionElement => (optionElement as HTMLOptionElement).label.replace(/[^\x00-\x7F]/g, '') === selectOption.label) as HTMLOptionElement
+                    else
+                        optionElement = Array.from(selectElement.children).find(optionElement => (optionElement as HTMLOptionElement).value.replace(/[^\x00-\x7F]/g, "") === selectOption.value) as HTMLOptionElement
+                    if (!optionElement) return false
+
+                    optionElement.selected = true;
+                    const event = new Event('change', {bubbles: true});
+                    selectElement.dispatchEvent(event);
+                    return true
+                }, selectElement, selectOption as any);
+                if (!isSelected) throw navigatorError('optionNotFound', 'Option not found ' + JSON.stringify(selectOption) + ' in ' + selector, 'select', selector)
+            }, options.retry)
+    
+            await waitAfter(this)
+        },
+
+        fillForm: async function (formSelector:string, values:FormValues) {
+            await guardAction('fillForm', formSelector, async () => {
+                if (options.waitOnSelectors)
+                    await this.wait(formSelector)
+                const formElement = await this.queryElementHandle(formSelector)
+                if (!formElement) throw navigatorError('notFound', 'Element not found ' + formSelector, 'fillForm', formSelector)
+
+                // dates would otherwise be serialized as empty objects when passed to the browser page
+                const pageValues:{[field:string]: any} = {}
+                for (const field of Object.keys(values)) {
+                    const value = values[field]
+                    pageValues[field] = value instanceof Date ? formatLocalDate(value) : value
+                }
+
+                const result = await frameDriver.evaluate(fillFormFields, formElement, pageValues, findFormFields.toString())
+                if (result.missingFields.length)
+                    throw navigatorError('notFound', 'Form field not found ' + result.missingFields.join(', ') + ' in ' + formSelector, 'fillForm', formSelector)
+                if (result.missingOptions.length)
+                    throw navigatorError('optionNotFound', 'Option not found for ' + result.missingOptions.join(', ') + ' in ' + formSelector, 'fillForm', formSelector)
+
+                for (const field of result.fileFields) {
+                    const fieldHandle = await frameDriver.evaluateHandle((formElement:Element, field:string, findFormFieldsText:string) => {
+                        const findFormFields = new Function(' return (' + findFormFieldsText + ').apply(null, arguments)')
+                        return findFormFields(formElement, field)[0]
+                    }, formElement, field, findFormFields.toString())
+                    const filePaths = values[field]
+                    await frameDriver.uploadFile(fieldHandle.asElement()!, ...(Array.isArray(filePaths) ? filePaths : [String(filePaths)]))
+                }
+            })
+
+            await waitAfter(this)
+        },
+
+        readForm: async function (formSelector:string) {
+            return await guardAction('readForm', formSelector, async () => {
+                if (options.waitOnSelectors)
+                    await this.wait(formSelector)
+                const formElement = await this.queryElementHandle(formSelector)
+                if (!formElement) throw navigatorError('notFound', 'Element not found ' + formSelector, 'readForm', formSelector)
+
+                return await frameDriver.evaluate(readFormFields, formElement) as FormValues
+            })
+        },
+
+        extractTable: async function (selector:string, tableOptions:TableOptions = {}) {
+            return await guardAction('extractTable', selector, async () => {
+                if (options.waitOnSelectors)
+                    await this.wait(selector)
+
+                const rows:TableRow[] = []
+                const rowKeys = new Set<string>()
+                const rowKey = tableOptions.rowKey || ((row:TableRow) => JSON.stringify(row))
+                const maxPages = tableOptions.maxPages || 100
+                const pageTimeout = tableOptions.pageTimeout === undefined ? 5000 : tableOptions.pageTimeout
+                let previousPageKey = ''
+
+                // the table may be replaced when moving to another page
+                const readPage = async () => {
+                    const tableElement = await this.queryElementHandle(selector)
+                    if (!tableElement) throw navigatorError('notFound', 'Element not found ' + selector, 'extractTable', selector)
+                    return {tableElement, table: await readTableData(tableElement)}
+                }
+
+                for (let pageCount = 1; ; pageCount++) {
+                    let tablePage = await readPage()
+                    if (previousPageKey) {
+                        // rows of the next page may render some time after the click, so only unchanged rows after the page timeout are the last page
+                        const deadline = Date.now() + pageTimeout
+                        while (JSON.stringify(tablePage.table.rows) === previousPageKey && Date.now() < deadline) {
+                            await new Promise(resolve => setTimeout(resolve, 100))
+                            tablePage = await readPage()
+                        }
+                    }
+                    const {tableElement, table} = tablePage
+                    const pageRows = table.rows.map(cells => mapTableRow(table.headers, cells, tableOptions))
+
+                    if (tableOptions.scroll) {
+                        // virtual scrolling renders overlapping sets of rows, so only keep rows not seen before
+                        const newRows = pageRows.filter(row => !rowKeys.has(rowKey(row)))
+                        newRows.forEach(row => rowKeys.add(rowKey(row)))
+                        rows.push(...newRows)
+                        if (!newRows.length || pageCount >= maxPages) break
+
+                        await frameDriver.evaluate(scrollTable, tableElement)
+                        await this.waitActivity(options.waitIdleTime, options.waitIdleLoadTime)
+                        await this.wait(tableOptions.scrollDelay === undefined ? 250 : tableOptions.scrollDelay)
+                    } else {
+                        // stop if moving to the next page did not change the rows
+                        const pageKey = JSON.stringify(table.rows)
+                        if (pageKey === previousPageKey) break
+                        previousPageKey = pageKey
+                        rows.push(...pageRows)
+                        if (!tableOptions.nextPage || pageCount >= maxPages) break
+
+                        const isNextPageEnabled = await this.queryElement(tableOptions.nextPage, element => !element.disabled && element.getAttribute('aria-disabled') !== 'true')
+                        if (!isNextPageEnabled) break
+                        await this.click(tableOptions.nextPage)
+                        await this.waitActivity(options.waitIdleTime, options.waitIdleLoadTime)
+                    }
+                }
+                return rows
+            })
+        },
+
+        findRow: async function (selector:string, criteria:{[column:string]: string | RegExp}, tableOptions:TableOptions = {}) {
+            return await guardAction('findRow', selector, async () => {
+                if (options.waitOnSelectors)
+                    await this.wait(selector)
+                const tableElement = await this.queryElementHandle(selector)
+                if (!tableElement) throw navigatorError('notFound', 'Element not found ' + selector, 'findRow', selector)
+
+                const tableHandle = await frameDriver.evaluateHandle(readTable, tableElement)
+                try {
+                    const table = await frameDriver.evaluate((table:TableData) => ({headers: table.headers, rows: table.rows}), tableHandle)
+                    const rowIndex = table.rows.findIndex(cells => rowMatches(mapTableRow(table.headers, cells, tableOptions), criteria))
+                    if (rowIndex < 0) return null
+
+                    const rowElement = (await frameDriver.evaluateHandle((table:TableData, rowIndex:number) => table.rowElements[rowIndex], tableHandle, rowIndex)).asElement()!
+                    return _makePageNavigator(frameDriver, services, options, rowElement)
+                } finally {
+                    await tableHandle.dispose()
+                }
+            })
+        },
+
+        frameNavigator: async function (selector:string) {
+            return guardAction('frameNavigator', selector, async () => {
+                if (options.waitOnSelectors)
+                    await this.wait(selector)
+
+                const selectElement = await this.queryElementHandle(selector)
+                const childFrameDriver = selectElement && await frameDriver.contentFrame(selectElement)
+                if (!childFrameDriver) throw navigatorError('frameNotFound', 'unable to find ' + selector, 'frameNavigator', selector)
+                return _makePageNavigator(childFrameDriver, services, options)
+            }, options.retry)
+        },
+
+        shadowNavigator: async function (selector:string) {
+            return guardAction('shadowNavigator', selector, async () => {
+                if (options.waitOnSelectors)
+                    await this.wait(selector)
+
+                const hostElement = await this.queryElementHandle(selector)
+                if (!hostElement) throw navigatorError('notFound', 'Element not found ' + selector, 'shadowNavigator', selector)
+                const shadowRoot = (await frameDriver.evaluateHandle((element:Element) => element.shadowRoot, hostElement)).asElement()
+                if (!shadowRoot) throw navigatorError('notFound', 'No open shadow root for ' + selector, 'shadowNavigator', selector)
+                return _makePageNavigator(frameDriver, services, options, shadowRoot)
+            }, options.retry)
+        },
+
+        within: async function (selector:string | ElementHandle) {
+            return guardAction('within', selector, async () => {
+                if (options.waitOnSelectors && typeof selector === 'string')
+                    await this.wait(selector)
+
+                const rootElement = await this.queryElementHandle(selector)
+                if (!rootElement) throw navigatorError('notFound', 'Element not found ' + selector, 'within', selector)
+                return _makePageNavigator(frameDriver, services, options, rootElement)
+            }, options.retry)
+        }
+    })))
+}
@@ -0,0 +1,74 @@
+/**
+ * Callbacks such as the valueMapFn of queryElements are sent to the page as source text and rebuilt there,
+ * so they can not use variables from the scope they were written in.
+ * Values are passed to callbacks as extra arguments instead, and shared functions are registered as helpers
+ * which are in scope for every callback.
+ */
+
+export type PageHelpers = {[name:string]: Function}
+
+// global of each frame holding the registered helpers
+const helpersGlobal = '__puppeteerNavigatorHelpers'
+
+/**
+ * Returns the source text of the callback, throwing a clear error if it can not be rebuilt in the page
+ * @param description describes the callback in errors such as 'queryElements callback'
+ */
+export function serializeFunction(callback:Function, description:string) : string {
+    if (typeof callback !== 'function') throw new TypeError(`${description} must be a function but was ${typeof callback}`)
+
+    const text = callback.toString()
+    if (/\{\s*\[native code\]\s*\}$/.test(text))
+        throw new TypeError(`${description} can not be sent to the page since it is a native or bound function.  Pass values as extra arguments instead of binding them`)
+    try {
+        new Function(' return (' + text + ')')
+    } catch (error) {
+        // method shorthand such as `{ match(element) {...} }` is not a valid expression on its own
+        throw new TypeError(`${description} can not be sent to the page since its source is not a function expression.  Use an arrow function or function expression: ${text.slice(0, 80)}`)
+    }
+    return text
+}
+
+/**
+ * Source text of an expression which evaluates to the callback within the page, with all registered helpers in scope.
+ * The text is rebuilt in the page with `new Function(' return (' + text + ').apply(null, arguments)')`.
+ * References to variables not available in the page are reported with a clear error.
+ * @param description describes the callback in errors such as 'queryElements callback'
+ */
+export function callbackText(callback:Function, description:string) : string {
+    const text = serializeFunction(callback, description)
+    const referenceErrorText = ` in ${description}.  Variables from the scope the callback was written in are not available in the page.  Pass them as extra arguments or register them as helpers`
+    return `(function () {
+        const helpers = window[${JSON.stringify(helpersGlobal)}] || {}
+        const names = Object.keys(helpers)
+        const callback = new Function(...names, ' return (' + ${JSON.stringify(text)} + ')').apply(null, names.map(name => helpers[name]))
+        return function () {
+            try {
+                return callback.apply(this, arguments)
+            } catch (error) {
+                if (!(error instanceof ReferenceError)) throw error
+                throw new ReferenceError(error.message + ${JSON.stringify(referenceErrorText)})
+            }
+        }
+    })()`
+}
+
+/**
+ * Page function adding helpers rebuilt from their source text to the helpers global of the frame
+ */
+export function installHelpers(helpersGlobal:string, helperTexts:{[name:string]: string}) {
+    const helpers = (window as any)[helpersGlobal] || ((window as any)[helpersGlobal] = {})
+    for (const name of Object.keys(helperTexts)) helpers[name] = new Function(' return (' + helperTexts[name] + ')')()
+}
+
+/**
+ * Arguments for installHelpers.  Throws if a helper name is not a valid identifier or a helper can not be serialized
+ */
+export function helperArguments(helpers:PageHelpers) : [string, {[name:string]: string}] {
+    const helperTexts:{[name:string]: string} = {}
+    for (const name of Object.keys(helpers)) {
+        if (!/^[A-Za-z_$][\w$]*$/.test(name)) throw new TypeError(`Helper name ${name} is not a valid identifier`)
+        helperTexts[name] = serializeFunction(helpers[name], `helper ${name}`)
+    }
+    return [helpersGlobal, helperTexts]
+}
@@ -0,0 +1,126 @@
+import { ClickOptions, Response } from "puppeteer";
+import { Navigator, SelectorType } from "./navigator";
+
+/**
+ * Named elements and frames of a page or frame
+ */
+export interface SectionDefinition {
+    /** css selector or xpath of each element by name */
+    elements?: {[name:string]: string}
+    /** nested frame sections by name */
+    frames?: {[name:string]: FrameDefinition}
+}
+
+export interface FrameDefinition extends SectionDefinition {
+    /** css selector or xpath of the frame element */
+    selector: string
+}
+
+export interface PageDefinition extends SectionDefinition {
+    url?: string
+    /** condition goto waits for once the page has loaded.  See Navigator.wait */
+    waitCondition?: SelectorType
+}
+
+export interface PageElement {
+    selector: string
+    click(clickOptions?:ClickOptions) : Promise<void>
+    type(text:string, typeOptions?:{delay:number}) : Promise<void>
+    select(selectOption:{value?:string, label?:string}) : Promise<void>
+    /** trimmed text content or null if the element is not found */
+    text() : Promise<string | null>
+    wait() : Promise<void>
+}
+
+export type Section<D extends SectionDefinition> =
+    {[E in keyof NonNullable<D['elements']>]: PageElement} &
+    {[F in keyof NonNullable<D['frames']>]: FrameSection<NonNullable<D['frames']>[F]>}
+
+export type FrameSection<D extends FrameDefinition> = Section<D> & {
+    /** navigator for the frame */
+    navigator() : Promise<Navigator>
+}
+
+export type PageObject<D extends PageDefinition> = Section<D> & {
+    navigator() : Promise<Navigator>
+    /**
+     * Navigates to the page url and waits for the page wait condition
+     */
+    goto() : Promise<Response>
+    /**
+     * Reports declared selectors which do not match the live page
+     */
+    verify() : Promise<VerifyResult>
+}
+
+export interface VerifyResult {
+    /** true if all declared selectors matched */
+    ok: boolean
+    /** declared elements and frames not found, named by their path such as 'details.title' */
+    missing: {name:string, selector:string}[]
+}
+
+function makePageElement(resolveNavigator:() => Promise<Navigator>, selector:string) : PageElement {
+    return {
+        selector,
+        click: async clickOptions => (await resolveNavigator()).click(selector, clickOptions),
+        type: async (text, typeOptions) => (await resolveNavigator()).type(selector, text, typeOptions),
+        select: async selectOption => (await resolveNavigator()).select(selector, selectOption),
+        text: async () => (await resolveNavigator()).queryElement(selector, element => (element.textContent || '').trim()),
+        wait: async () => {
+            await (await resolveNavigator()).wait(selector)
+        }
+    }
+}
+
+function makeSection(resolveNavigator:() => Promise<Navigator>, definition:SectionDefinition) : any {
+    const section:any = {navigator: resolveNavigator}
+    const elements = definition.elements || {}
+    const frames = definition.frames || {}
+    for (const name of Object.keys(elements)) section[name] = makePageElement(resolveNavigator, elements[name])
+    for (const name of Object.keys(frames)) {
+        const frameSelector = frames[name].selector
+        section[name] = makeSection(async () => (await resolveNavigator()).frameNavigator(frameSelector), frames[name])
+    }
+    return section
+}
+
+async function verifySection(navigator:Navigator, definition:SectionDefinition, path:string, missing:VerifyResult['missing']) {
+    const elements = definition.elements || {}
+    const frames = definition.frames || {}
+    for (const name of Object.keys(elements)) {
+        if (!await navigator.queryElementHandle(elements[name])) missing.push({name: path + name, selector: elements[name]})
+    }
+    for (const name of Object.keys(frames)) {
+        const frameSelector = frames[name].selector
+        const isFrame = await navigator.queryElement(frameSelector, element => !!element.contentWindow)
+        if (!isFrame) {
+            missing.push({name: path + name, selector: frameSelector})
+            continue
+        }
+        await verifySection(await navigator.frameNavigator(frameSelector), frames[name], path + name + '.', missing)
+    }
+}
+
+/**
+ * Defines a page object from a schema of named elements and frames.
+ * Returns a function creating the page object for a navigator.
+ *
+ * Each named element has click, type, select, text and wait actions.
+ * Each named frame is a section of its own elements and frames performed with frameNavigator.
+ */
+export function definePage<D extends PageDefinition>(definition:D) : (navigator:Navigator) => PageObject<D> {
+    return (navigator:Navigator) => {
+        const pageObject = makeSection(async () => navigator, definition)
+        pageObject.goto = async () => {
+            if (!definition.url) throw new Error('Page definition has no url')
+            return await navigator.goto(definition.url, definition.waitCondition)
+        }
+        pageObject.verify = async () => {
+            const missing:VerifyResult['missing'] = []
+            await verifySection(navigator, definition, '', missing)
+            return {ok: !missing.length, missing}
+        }
+        return pageObject as PageObject<D>
+    }
+}
@@ -0,0 +1,111 @@
+import { CDPSession, ElementHandle, Frame, Page } from "puppeteer";
+import { FrameDriver, PageDriver, isXPath } from "./driver";
+
+/**
+ * Driver for a puppeteer page.
+ * Features which were renamed or removed across puppeteer versions are detected when used
+ * so the same driver works with puppeteer 3 and later major versions.
+ */
+export function makePuppeteerDriver(page:Page) : PageDriver {
+    const frameDrivers = new WeakMap<Frame, FrameDriver>()
+    let session:Promise<CDPSession> | undefined
+
+    function cdpSession() : Promise<CDPSession> {
+        if (!session) {
+            // puppeteer before 14 exposes the page session as a property and until 19 as a method
+            const pageClient = (page as any)._client
+            if (pageClient) session = Promise.resolve(typeof pageClient === 'function' ? pageClient.call(page) : pageClient)
+            else session = page.target().createCDPSession().then(async newSession => {
+                // a new session only receives page events once they are enabled
+                await newSession.send('Page.enable')
+                return newSession
+            })
+        }
+        return session!
+    }
+
+    function frameDriver(frame:Frame) : FrameDriver {
+        const existingDriver = frameDrivers.get(frame)
+        if (existingDriver) return existingDriver
+
+        // $x and waitForXPath were removed in puppeteer 22 in favor of the 'xpath/' selector prefix added in 19
+        async function queryXPath(context:Frame | ElementHandle, xpath:string) : Promise<ElementHandle[]> {
+            if (typeof (context as any).$x === 'function') return await context.$x(xpath)
+            return await context.$$('xpath/' + xpath)
+        }
+
+        const driver:FrameDriver = {
+            frame,
+            url: () => frame.url(),
+
+            query: async function (selector:string, root?:ElementHandle) {
+                const context = root || frame
+                if (isXPath(selector)) return (await queryXPath(context, selector))[0] || null
+                return await context.$(selector)
+            },
+
+            queryAll: async function (selector:string, root?:ElementHandle) {
+                const context = root || frame
+                if (isXPath(selector)) return await queryXPath(context, selector)
+                return await context.$$(selector)
+            },
+
+            evaluate: ((pageFunction:any, ...args:any[]) => frame.evaluate(pageFunction, ...args)) as FrameDriver['evaluate'],
+            evaluateHandle: (pageFunction, ...args) => frame.evaluateHandle(pageFunction, ...args),
+
+            waitForSelector: async function (selector, waitOptions = {}) {
+                if (!isXPath(selector)) return await frame.waitForSelector(selector, waitOptions)
+                if (typeof (frame as any).waitForXPath === 'function') return await frame.waitForXPath(selector, waitOptions)
+                return await frame.waitForSelector('xpath/' + selector, waitOptions)
+            },
+
+            waitForFunction: (pageFunction, waitOptions = {}, ...args) => frame.waitForFunction(pageFunction, waitOptions, ...args),
+            // frame.waitFor was replaced by waitForTimeout in puppeteer 5 which was removed in 22
+            waitForTimeout: milliseconds => new Promise(resolve => setTimeout(resolve, milliseconds)),
+
+            goto: url => frame.goto(url),
+            waitForNavigation: () => frame.waitForNavigation(),
+
+            click: (element, clickOptions) => element.click(clickOptions),
+            type: (element, text, typeOptions) => element.type(text, typeOptions),
+            uploadFile: (element, ...filePaths) => element.uploadFile(...filePaths),
+            contentFrame: async function (element:ElementHandle) {
+                const childFrame = await element.contentFrame()
+                return childFrame ? frameDriver(childFrame) : null
+            }
+        }
+        frameDrivers.set(frame, driver)
+        return driver
+    }
+
+    return {
+        page,
+        mainFrame: () => frameDriver(page.mainFrame()),
+        frame: frameDriver,
+        frames: () => page.frames().map(frameDriver),
+        url: () => page.url(),
+
+        pageDriver: makePuppeteerDriver,
+        newPage: async () => makePuppeteerDriver(await page.browserContext().newPage()),
+
+        on: (event, listener) => page.on(event, listener),
+        off: (event, listener) => page.off(event, listener),
+
+        send: async (method, params) => (await cdpSession()).send(method as any, params),
+        onProtocolEvent: async function (event, listener) {
+            (await cdpSession()).on(event, listener)
+        },
+        offProtocolEvent: async function (event, listener) {
+            (await cdpSession()).off(event, listener)
+        },
+
+        setRequestInterception: enabled => page.setRequestInterception(enabled),
+        setCookies: cookies => page.setCookie(...cookies),
+
+        addInitScript: (pageFunction, ...args) => page.evaluateOnNewDocument(pageFunction, ...args),
+
+        screenshot: async () => await page.screenshot({encoding: 'base64'}) as string,
+        close: () => page.close(),
+        isClosed: () => page.isClosed()
+    }
+}
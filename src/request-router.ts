@@ -0,0 +1,180 @@
+import { Request, ErrorCode, Overrides } from "puppeteer";
+import { UrlPattern, urlMatches } from "./activity-monitor";
+import { PageDriver } from "./driver";
+import fs from 'fs'
+import http from 'http'
+import https from 'https'
+
+export interface RouteResponse {
+    /** default 200 */
+    status?: number
+    headers?: {[name:string]: string}
+    contentType?: string
+    body?: string | Buffer
+    /** serialized as the body with a json content type */
+    json?: any
+    /** fixture file used as the body */
+    path?: string
+    /** milliseconds to wait before responding */
+    delay?: number
+}
+
+export interface FetchedResponse {
+    status: number
+    headers: {[name:string]: string}
+    body: Buffer
+}
+
+/**
+ * An intercepted request passed to a route handler.
+ * If the handler completes without calling fulfill, continue or abort the request is continued.
+ */
+export interface Route {
+    request: Request
+    /** respond to the request without sending it to the network */
+    fulfill(response:RouteResponse) : Promise<void>
+    /** send the request to the network, optionally changing it */
+    continue(overrides?:Overrides & {delay?:number}) : Promise<void>
+    abort(errorCode?:ErrorCode, delay?:number) : Promise<void>
+    /**
+     * Performs the request from node and returns the response so it can be changed and passed to fulfill
+     */
+    fetch() : Promise<FetchedResponse>
+}
+
+export type RouteHandler = (route:Route) => Promise<void> | void
+
+/**
+ * A route handler which threw.  The request was aborted if the handler had not resolved it
+ */
+export interface RouteFailure {
+    url: string
+    error: Error
+}
+
+export type RequestRouter = ReturnType<typeof makeRequestRouter>
+
+function delay(milliseconds:number = 0) {
+    return milliseconds > 0 ? new Promise(resolve => setTimeout(resolve, milliseconds)) : Promise.resolve()
+}
+
+/**
+ * Performs the request using node so the response can be changed before it is returned to the page
+ */
+export function fetchRequest(request:Request) : Promise<FetchedResponse> {
+    const url = new URL(request.url())
+    const transport = url.protocol === 'https:' ? https : http
+    const headers = {...request.headers()}
+    // request an uncompressed body so it can be changed and returned as is
+    delete headers['accept-encoding']
+
+    return new Promise((resolve, reject) => {
+        const clientRequest = transport.request(url, {method: request.method(), headers}, response => {
+            const chunks:Buffer[] = []
+            response.on('data', chunk => chunks.push(chunk))
+            response.on('error', reject)
+            response.on('end', () => {
+                const responseHeaders:{[name:string]: string} = {}
+                for (const name of Object.keys(response.headers)) {
+                    const value = response.headers[name]
+                    responseHeaders[name] = Array.isArray(value) ? value.join('\n') : String(value)
+                }
+                resolve({status: response.statusCode || 200, headers: responseHeaders, body: Buffer.concat(chunks)})
+            })
+        })
+        clientRequest.on('error', reject)
+        const postData = request.postData()
+        if (postData) clientRequest.write(postData)
+        clientRequest.end()
+    })
+}
+
+/**
+ * Routes intercepted requests of a page to handlers.
+ * Request interception is only enabled once the first route is added.
+ */
+export function makeRequestRouter(driver:PageDriver) {
+    let routes:{pattern:UrlPattern, handler:RouteHandler}[] = []
+    let isIntercepting = false
+    const failures:RouteFailure[] = []
+
+    async function onRequest(request:Request) {
+        // routes added most recently take precedence
+        const matchingRoute = routes.slice().reverse().find(route => urlMatches(request.url(), route.pattern))
+        // the handler chose how to resolve the request
+        let isHandled = false
+        // the request was responded to, continued or aborted
+        let isResolved = false
+        async function resolveRequest(resolveFn:() => Promise<void>) {
+            isHandled = true
+            await resolveFn()
+            isResolved = true
+        }
+
+        const route:Route = {
+            request,
+            fulfill: (response:RouteResponse) => resolveRequest(async () => {
+                await delay(response.delay)
+                let body = response.body
+                let contentType = response.contentType
+                if (response.json !== undefined) {
+                    body = JSON.stringify(response.json)
+                    contentType = contentType || 'application/json'
+                }
+                if (response.path) body = await fs.promises.readFile(response.path)
+                await request.respond({status: response.status || 200, headers: response.headers, contentType, body})
+            }),
+            continue: (overrides:Overrides & {delay?:number} = {}) => resolveRequest(async () => {
+                const {delay: delayTime, ...requestOverrides} = overrides
+                await delay(delayTime)
+                await request.continue(requestOverrides)
+            }),
+            abort: (errorCode:ErrorCode = 'failed', delayTime?:number) => resolveRequest(async () => {
+                await delay(delayTime)
+                await request.abort(errorCode)
+            }),
+            fetch: () => fetchRequest(request)
+        }
+
+        try {
+            if (matchingRoute) await matchingRoute.handler(route)
+            if (!isHandled) await request.continue()
+        } catch (error) {
+            // the request must always be resolved or the page will wait on it forever, such as when a fixture file is missing
+            if (!isResolved) await request.abort('failed').catch(() => {})
+            // reported by the next navigator action so a broken handler fails the test
+            failures.push({url: request.url(), error})
+        }
+    }
+
+    async function enableInterception() {
+        if (isIntercepting) return
+        isIntercepting = true
+        driver.on('request', onRequest)
+        await driver.setRequestInterception(true)
+    }
+
+    return {
+        /**
+         * Adds a handler for requests with urls matching the pattern
+         */
+        route: async function (pattern:UrlPattern, handler:RouteHandler) {
+            routes.push({pattern, handler})
+            await enableInterception()
+        },
+
+        /**
+         * Removes the handler for the pattern, or all handlers for the pattern if no handler is given
+         */
+        unroute: function (pattern:UrlPattern, handler?:RouteHandler) {
+            routes = routes.filter(route => String(route.pattern) !== String(pattern) || (handler && route.handler !== handler))
+        },
+
+        /**
+         * Removes and returns the route handler failures not yet reported
+         */
+        takeFailures: function () {
+            return failures.splice(0)
+        }
+    }
+}
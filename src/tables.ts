@@ -0,0 +1,124 @@
+export type TableRow = {[column:string]: any}
+
+export interface TableOptions {
+    /** column names to use instead of the header text, in column order */
+    headers?: string[]
+    /** functions mapping the cell text of a column to the value returned for that column */
+    columns?: {[column:string]: (text:string, row:{[column:string]: string}) => any}
+    /** css selector or xpath of a 'next page' element clicked to collect rows from each page until it is missing or disabled */
+    nextPage?: string
+    /** maximum milliseconds to wait for the rows to change after clicking nextPage.  Unchanged rows are then the last page. default 5000 */
+    pageTimeout?: number
+    /** scroll the table to collect rows rendered by virtual scrolling until no new rows appear. default false */
+    scroll?: boolean
+    /** milliseconds to wait after each scroll in addition to waiting for network activity. default 250 */
+    scrollDelay?: number
+    /** maximum number of pages or scrolls. default 100 */
+    maxPages?: number
+    /** identifies duplicate rows when scrolling. default compares all columns */
+    rowKey?: (row:TableRow) => string
+}
+
+export interface TableData {
+    headers: string[]
+    /** cell text of each body row by column position */
+    rows: string[][]
+    /** body row elements in the same order as rows */
+    rowElements: Element[]
+}
+
+/**
+ * Reads the headers and rows of a `<table>`, an ARIA `role=grid/row/cell` grid or a div based grid where
+ * each child is a row and each of its children a cell.
+ * Cells spanning multiple rows or columns repeat their text in each position they cover.
+ * Runs within the browser page
+ */
+export function readTable(table:Element) : TableData {
+    const cellText = (cell:Element) => (cell.textContent || '').replace(/\s+/g, ' ').trim()
+    let rowElements:Element[]
+    let cellsOf:(row:Element) => Element[]
+    let isHeaderRow:(row:Element, cells:Element[]) => boolean
+
+    if (table instanceof HTMLTableElement) {
+        rowElements = Array.from(table.rows)
+        cellsOf = row => Array.from((row as HTMLTableRowElement).cells)
+        isHeaderRow = (row, cells) => (row.parentElement && row.parentElement.tagName === 'THEAD') || (cells.length > 0 && cells.every(cell => cell.tagName === 'TH'))
+    } else if (table.querySelector('[role=row]')) {
+        rowElements = Array.from(table.querySelectorAll('[role=row]'))
+        cellsOf = row => Array.from(row.querySelectorAll('[role=cell], [role=gridcell], [role=columnheader], [role=rowheader]')).filter(cell => cell.closest('[role=row]') === row)
+        isHeaderRow = (row, cells) => cells.length > 0 && cells.every(cell => cell.getAttribute('role') === 'columnheader')
+    } else {
+        rowElements = Array.from(table.children)
+        cellsOf = row => Array.from(row.children)
+        isHeaderRow = row => row === table.children[0]
+    }
+
+    // place each cell in a grid position accounting for cells spanning rows and columns above it
+    const grid:string[][] = rowElements.map(() => [])
+    const headerRowFlags = rowElements.map((row, rowIndex) => {
+        const cells = cellsOf(row)
+        let columnIndex = 0
+        for (const cell of cells) {
+            while (grid[rowIndex][columnIndex] !== undefined) columnIndex++
+            const colspan = Number(cell.getAttribute('colspan') || cell.getAttribute('aria-colspan')) || 1
+            const rowspan = Number(cell.getAttribute('rowspan') || cell.getAttribute('aria-rowspan')) || 1
+            const text = cellText(cell)
+            for (let spanRow = rowIndex; spanRow < Math.min(rowIndex + rowspan, grid.length); spanRow++) {
+                for (let spanColumn = columnIndex; spanColumn < columnIndex + colspan; spanColumn++) grid[spanRow][spanColumn] = text
+            }
+            columnIndex += colspan
+        }
+        return isHeaderRow(row, cells)
+    })
+
+    // when there are multiple header rows the last one is the most specific
+    const headerRowIndex = headerRowFlags.lastIndexOf(true)
+    const columnCount = Math.max(0, ...grid.map(cells => cells.length))
+    const headerCells = headerRowIndex >= 0 ? grid[headerRowIndex] : []
+    const headers = Array.from({length: columnCount}, (value, index) => headerCells[index] || `column${index + 1}`)
+
+    const bodyIndexes = rowElements.map((row, index) => index).filter(index => !headerRowFlags[index])
+    return {
+        headers,
+        rows: bodyIndexes.map(index => Array.from({length: columnCount}, (value, column) => grid[index][column] || '')),
+        rowElements: bodyIndexes.map(index => rowElements[index])
+    }
+}
+
+/**
+ * Scrolls the nearest scrollable container of the table, or the window, by one page.
+ * Runs within the browser page
+ */
+export function scrollTable(table:Element) {
+    let container:Element | null = table
+    while (container && container.scrollHeight <= container.clientHeight) container = container.parentElement
+    if (container && container !== document.documentElement && container !== document.body) container.scrollTop += container.clientHeight
+    else window.scrollBy(0, window.innerHeight)
+}
+
+/**
+ * Maps the cell text of a row to an object keyed by column name
+ */
+export function mapTableRow(headers:string[], cells:string[], tableOptions:TableOptions) : TableRow {
+    const columnNames = tableOptions.headers || headers
+    const cellTexts:{[column:string]: string} = {}
+    cells.forEach((text, index) => cellTexts[columnNames[index] || headers[index]] = text)
+
+    const row:TableRow = {}
+    for (const column of Object.keys(cellTexts)) {
+        const columnMapper = tableOptions.columns && tableOptions.columns[column]
+        row[column] = columnMapper ? columnMapper(cellTexts[column], cellTexts) : cellTexts[column]
+    }
+    return row
+}
+
+/**
+ * Tests if a row has the text or matches the pattern for each column of the criteria
+ */
+export function rowMatches(row:TableRow, criteria:{[column:string]: string | RegExp}) {
+    return Object.keys(criteria).every(column => {
+        const expected = criteria[column]
+        const actual = String(row[column] === undefined ? '' : row[column])
+        return typeof expected === 'string' ? actual === expected : expected.test(actual)
+    })
+}
@@ -22,6 +22,11 @@ async function run() {
             const result = await navigator.page().evaluate(e => e.localName, child)
             console.log(result)
         }
+
+        const pets = await navigator.extractTable('#petTable', {columns: {Age: Number}})
+        console.log(pets)
+        const catRow = await navigator.findRow('#petTable', {Pet: 'Cat'})
+        await catRow?.click('button')
     });
 }
 
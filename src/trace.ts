@@ -0,0 +1,207 @@
+import { FrameDriver, PageDriver } from "./driver";
+import fs from 'fs'
+
+/**
+ * Options controlling what is captured for each traced action
+ */
+export interface TraceOptions {
+    /** capture a screenshot of the page before and after each action. default false */
+    screenshots?: boolean
+    /** capture the frame html before and after each action. default false */
+    snapshots?: boolean
+}
+
+export interface TraceEntry {
+    /** navigator action name such as 'click' or 'goto' */
+    action: string
+    /** action arguments. functions are recorded as source text and handles as placeholders */
+    args: any[]
+    /** url of the navigator frame at the start of the action */
+    frameUrl: string
+    /** nesting level when an action is performed by another action. 0 for top level actions */
+    depth: number
+    startTime: number
+    endTime: number
+    /** milliseconds spent in waitAfter/waitActivity during this action */
+    waitTime: number
+    outcome: 'success' | 'error'
+    error?: string
+    /** kind of NavigatorError when the action failed with one */
+    errorKind?: string
+    /** base64 png */
+    screenshotBefore?: string
+    /** base64 png */
+    screenshotAfter?: string
+    domBefore?: string
+    domAfter?: string
+}
+
+export interface TraceRecorder {
+    options: TraceOptions
+    /**
+     * All entries recorded so far, in the order the actions were started
+     */
+    entries(): TraceEntry[]
+
+    /**
+     * Records the action performed by actionFn.
+     * Any error thrown by actionFn is recorded and rethrown.
+     * @param driver driver of the page screenshots are captured from
+     * @param frameDriver driver of the frame the action is performed in, which DOM snapshots are captured from
+     */
+    record<T>(driver:PageDriver, frameDriver:FrameDriver, action:string, args:any[], actionFn:() => Promise<T>) : Promise<T>
+
+    /**
+     * Adds wait time to the action currently being recorded
+     * @param waitTime milliseconds
+     */
+    addWaitTime(waitTime:number) : void
+
+    clear() : void
+    toJSON() : TraceEntry[]
+
+    /**
+     * Self contained html timeline of all entries
+     */
+    toHTML() : string
+
+    /**
+     * Writes the trace as '<basePath>.json' and '<basePath>.html'
+     * @param basePath file path without extension
+     */
+    save(basePath:string) : Promise<void>
+}
+
+export function makeTraceRecorder(options:TraceOptions = {}) : TraceRecorder {
+    let traceEntries:TraceEntry[] = []
+    // entries of actions which have started but not yet completed
+    const activeEntries:TraceEntry[] = []
+
+    async function capture(driver:PageDriver, frameDriver:FrameDriver, entry:TraceEntry, stage:'Before'|'After') {
+        // capturing is best effort.  The page may be navigating or closed
+        try {
+            if (options.screenshots) entry[`screenshot${stage}` as 'screenshotBefore'] = await driver.screenshot()
+        } catch (error) {}
+        try {
+            if (options.snapshots) entry[`dom${stage}` as 'domBefore'] = await frameDriver.evaluate(() => document.documentElement.outerHTML)
+        } catch (error) {}
+    }
+
+    return {
+        options,
+        entries: () => traceEntries,
+
+        record: async function<T>(driver:PageDriver, frameDriver:FrameDriver, action:string, args:any[], actionFn:() => Promise<T>) {
+            const entry:TraceEntry = {
+                action,
+                args: args.map(serializeArg),
+                frameUrl: frameDriver.url(),
+                depth: activeEntries.length,
+                startTime: Date.now(),
+                endTime: 0,
+                waitTime: 0,
+                outcome: 'success'
+            }
+            traceEntries.push(entry)
+            activeEntries.push(entry)
+
+            if (entry.depth === 0) await capture(driver, frameDriver, entry, 'Before')
+            try {
+                return await actionFn()
+            } catch (error) {
+                entry.outcome = 'error'
+                entry.error = error && error.message || String(error)
+                if (error && error.kind) entry.errorKind = error.kind
+                throw error
+            } finally {
+                activeEntries.splice(activeEntries.indexOf(entry), 1)
+                if (entry.depth === 0) await capture(driver, frameDriver, entry, 'After')
+                entry.endTime = Date.now()
+            }
+        },
+
+        addWaitTime: function (waitTime:number) {
+            const entry = activeEntries[activeEntries.length - 1]
+            if (entry) entry.waitTime += waitTime
+        },
+
+        clear: function () {
+            traceEntries = []
+        },
+
+        toJSON: () => traceEntries,
+
+        toHTML: function () {
+            return traceToHTML(traceEntries)
+        },
+
+        save: async function (basePath:string) {
+            await fs.promises.writeFile(basePath + '.json', JSON.stringify(traceEntries, null, 2))
+            await fs.promises.writeFile(basePath + '.html', this.toHTML())
+        }
+    }
+}
+
+function serializeArg(arg:any):any {
+    if (typeof arg === 'function') return arg.toString()
+    if (arg && typeof arg === 'object') {
+        if (typeof arg.asElement === 'function') return '[ElementHandle]'
+        if (Array.isArray(arg)) return arg.map(serializeArg)
+        const serialized:{[key:string]:any} = {}
+        for (const key of Object.keys(arg)) serialized[key] = serializeArg(arg[key])
+        return serialized
+    }
+    return arg
+}
+
+function escapeHTML(text:string) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function traceToHTML(traceEntries:TraceEntry[]) {
+    const traceStartTime = traceEntries.length ? traceEntries[0].startTime : 0
+    const rows = traceEntries.map(entry => {
+        const details = [
+            entry.error ? `<div class="error">${escapeHTML(entry.error)}</div>` : '',
+            entry.screenshotBefore ? `<figure><img src="data:image/png;base64,${entry.screenshotBefore}"><figcaption>before</figcaption></figure>` : '',
+            entry.screenshotAfter ? `<figure><img src="data:image/png;base64,${entry.screenshotAfter}"><figcaption>after</figcaption></figure>` : '',
+            entry.domBefore ? `<details><summary>DOM before</summary><pre>${escapeHTML(entry.domBefore)}</pre></details>` : '',
+            entry.domAfter ? `<details><summary>DOM after</summary><pre>${escapeHTML(entry.domAfter)}</pre></details>` : ''
+        ].join('')
+        return `<tr class="${entry.outcome}">
+<td>+${entry.startTime - traceStartTime}ms</td>
+<td style="padding-left:${entry.depth * 20 + 4}px">${escapeHTML(entry.action)}</td>
+<td><code>${escapeHTML(JSON.stringify(entry.args))}</code></td>
+<td>${escapeHTML(entry.frameUrl)}</td>
+<td>${entry.endTime - entry.startTime}ms</td>
+<td>${entry.waitTime}ms</td>
+<td>${entry.outcome}${details}</td>
+</tr>`
+    }).join('\n')
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Navigator Trace</title>
+<style>
+body { font-family: sans-serif; font-size: 13px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ccc; padding: 4px; text-align: left; vertical-align: top; }
+tr.error { background: #fde8e8; }
+.error { color: #b00; font-weight: bold; }
+img { max-width: 480px; border: 1px solid #999; }
+figure { display: inline-block; margin: 4px; }
+pre { max-height: 300px; overflow: auto; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+<h1>Navigator Trace</h1>
+<table>
+<tr><th>Start</th><th>Action</th><th>Arguments</th><th>Frame</th><th>Duration</th><th>Wait</th><th>Outcome</th></tr>
+${rows}
+</table>
+</body>
+</html>
+`
+}
@@ -0,0 +1,85 @@
+import { Navigator, SelectorType } from "./navigator";
+import { UrlPattern } from "./activity-monitor";
+
+export interface WaitOptions {
+    /** maximum milliseconds to wait. default the waitTimeout option */
+    timeout?: number
+}
+
+/**
+ * A condition which can be waited on by any navigator.
+ * Conditions may be combined with waitAll and waitAny or used as the waitAfterCondition option.
+ */
+export interface WaitCondition {
+    /** describes the condition in errors and traces */
+    description: string
+    wait(navigator:Navigator) : Promise<unknown>
+}
+
+/**
+ * Conditions given to waitAll and waitAny.  Selectors, functions and numbers are waited on with Navigator.wait
+ */
+export type WaitConditionType = WaitCondition | SelectorType
+
+export function isWaitCondition(condition:any) : condition is WaitCondition {
+    return typeof condition === 'object' && condition !== null && typeof condition.wait === 'function'
+}
+
+export function waitForCondition(navigator:Navigator, condition:WaitConditionType) : Promise<unknown> {
+    return isWaitCondition(condition) ? condition.wait(navigator) : navigator.wait(condition)
+}
+
+/**
+ * Text content of the element contains the text or matches the pattern
+ */
+export function textCondition(selector:string, text:string | RegExp, waitOptions?:WaitOptions) : WaitCondition {
+    return {description: `text ${text} in ${selector}`, wait: navigator => navigator.waitForText(selector, text, waitOptions)}
+}
+
+/**
+ * Url of the navigator's frame contains the text or matches the pattern
+ */
+export function urlCondition(pattern:UrlPattern, waitOptions?:WaitOptions) : WaitCondition {
+    return {description: `url ${pattern}`, wait: navigator => navigator.waitForUrl(pattern, waitOptions)}
+}
+
+/**
+ * No DOM changes within the element, or the whole document if null, for the quiet time
+ */
+export function domStableCondition(selector:string | null, quietTime?:number, waitOptions?:WaitOptions) : WaitCondition {
+    return {description: `DOM stable in ${selector || 'document'}`, wait: navigator => navigator.waitForDomStable(selector, quietTime, waitOptions)}
+}
+
+/**
+ * Element does not exist or is not visible
+ */
+export function hiddenCondition(selector:string, waitOptions?:WaitOptions) : WaitCondition {
+    return {description: `hidden ${selector}`, wait: navigator => navigator.waitForHidden(selector, waitOptions)}
+}
+
+/**
+ * Network activity tracked by waitActivity has completed
+ */
+export function networkIdleCondition(idleTime?:number, idleLoadTime?:number) : WaitCondition {
+    return {description: 'network idle', wait: navigator => navigator.waitActivity(idleTime, idleLoadTime)}
+}
+
+/**
+ * All of the conditions are met
+ */
+export function allConditions(...conditions:WaitConditionType[]) : WaitCondition {
+    return {description: `all of (${conditions.map(describeCondition).join(', ')})`, wait: navigator => navigator.waitAll(...conditions)}
+}
+
+/**
+ * Any one of the conditions is met
+ */
+export function anyCondition(...conditions:WaitConditionType[]) : WaitCondition {
+    return {description: `any of (${conditions.map(describeCondition).join(', ')})`, wait: navigator => navigator.waitAny(...conditions)}
+}
+
+export function describeCondition(condition:WaitConditionType) {
+    if (isWaitCondition(condition)) return condition.description
+    if (typeof condition === 'number') return condition + 'ms'
+    return String(condition)
+}